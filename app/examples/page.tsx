@@ -46,6 +46,21 @@ const examples = [
     ],
     color: 'red',
     href: '/tutorial?example=secret-auction'
+  },
+  {
+    id: 'confidential-token',
+    title: 'Confidential Token',
+    description: 'Build an ERC-20-style token where balances, transfers and allowances stay encrypted.',
+    difficulty: 'Intermediate',
+    duration: '45 minutes',
+    features: [
+      'Encrypted balances',
+      'No-op transfers on insufficient funds',
+      'Encrypted allowances',
+      'Owner minting'
+    ],
+    color: 'yellow',
+    href: '/tutorial?example=confidential-token'
   }
 ];
 
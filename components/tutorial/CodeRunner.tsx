@@ -68,7 +68,7 @@ export function CodeRunner() {
 
 Contract: HelloFHEVM
 - Encrypted counter initialized
-- FHE operations available: add, subtract, increment, decrement
+- FHE operations available: add, subtract, multiply, divide, bitwise, shifts, max, neg, random
 - Access control configured
 - Events configured for transparency
 
@@ -83,8 +83,24 @@ Contract: HelloFHEVM
 - subtract(encryptedValue, proof)  
 - increment()
 - decrement()
-- reset() [owner only]
+- divide(divisor) / remainder(divisor)
+- bitwiseAnd / bitwiseOr / bitwiseXor(encryptedValue, proof)
+- shiftLeft / shiftRight / rotateLeft / rotateRight(bits)
+- negate()
+- max(encryptedValue, proof) → euint32 [viewers and admins]
+- randomize() / addRandom()
+- getCounter8/16/64/128() and addToCounter8/16/64/128(encryptedValue, proof)
+- castCounter(toBits) / loadCounterFrom(fromBits)
+- reset() [operator only]
 - grantPermission(address)
+- revokePermission(address)
+- listViewers() → address[]
+- setSaturatingMode(bool) [admin only]
+- getLastOpFailed() → ebool
+- addToMyCounter(encryptedValue, proof)
+- incrementMyCounter()
+- getUserCounter(address) → euint32
+- getAggregate() → euint32 [owner/admins decrypt]
 
 Ready for deployment! 🚀`);
       } else if (activeTab === 'typescript' || activeTab === 'jsx') {
@@ -397,12 +397,23 @@ import { createFhevmInstance } from '@zama-fhe/relayer-sdk';
 // Contract ABI (simplified for demo)
 const HELLO_FHEVM_ABI = [
   "function getCounter() view returns (uint256)",
-  "function add(uint256 encryptedValue, bytes calldata inputProof)",
-  "function subtract(uint256 encryptedValue, bytes calldata inputProof)", 
+  "function getCounter8() view returns (uint256)",
+  "function getCounter16() view returns (uint256)",
+  "function getCounter64() view returns (uint256)",
+  "function getCounter128() view returns (uint256)",
+  "function add(bytes32 encryptedValue, bytes calldata inputProof)",
+  "function subtract(bytes32 encryptedValue, bytes calldata inputProof)", 
+  "function addToCounter8(bytes32 encryptedValue, bytes calldata inputProof)",
+  "function addToCounter16(bytes32 encryptedValue, bytes calldata inputProof)",
+  "function addToCounter64(bytes32 encryptedValue, bytes calldata inputProof)",
+  "function addToCounter128(bytes32 encryptedValue, bytes calldata inputProof)",
+  "function castCounter(uint16 toBits)",
+  "function loadCounterFrom(uint16 fromBits)",
   "function increment()",
   "function decrement()",
   "function reset()",
-  "event CounterUpdated(address indexed user, string operation)"
+  "event CounterUpdated(address indexed user, string operation)",
+  "event CounterCast(address indexed user, uint16 fromBits, uint16 toBits)"
 ];
 
 export function HelloFHEVMDemo() {
@@ -828,7 +839,7 @@ Congratulations! You've built your first complete FHEVM application. Now let's d
 - Add encrypted numbers to counter
 - Subtract encrypted values
 - Use increment/decrement shortcuts
-- Reset counter (owner only)
+- Reset counter (operators only)
 
 ✅ **Privacy Features**
 - Input values are encrypted before sending
@@ -2491,6 +2502,209 @@ The future of blockchain is private, and you're now equipped to build it! 🌟
         interactive: false
       }
     ]
+  },
+  {
+    id: 'confidential-token',
+    title: 'Confidential Token',
+    description: 'Build an ERC-20-style token where balances, transfer amounts and allowances stay encrypted.',
+    difficulty: 'intermediate',
+    estimatedTime: '45 minutes',
+    steps: [
+      {
+        id: 'token-intro',
+        title: 'Introduction to Confidential Tokens',
+        description: 'Why public balances are a problem and how FHEVM fixes it',
+        content: `# Confidential Tokens with FHEVM 🪙
+
+Every ERC-20 transfer on a public chain reveals **who paid whom and how much**. Salaries, treasury movements and trading positions are all visible to anyone with a block explorer.
+
+## 🎯 What We're Building
+
+A token that behaves like ERC-20, except that:
+- **Balances are encrypted**: \`balanceOf\` returns a \`euint64\` only the holder can decrypt
+- **Amounts are encrypted**: transfers move encrypted values
+- **Allowances are encrypted**: spenders see how much they may spend, nobody else does
+- **Minting is public**: the owner mints plaintext amounts, so the total supply stays auditable
+
+## 🧠 The Key Idea: Transfers That Never Revert
+
+A normal token does this:
+
+\`\`\`solidity
+require(balance >= amount, "Insufficient balance");
+\`\`\`
+
+With encrypted balances that line would **leak information**: whether a transaction reverts tells everyone that the balance was too low. Instead, a confidential token computes the check under encryption and transfers **zero** when it fails:
+
+\`\`\`solidity
+ebool canTransfer = FHE.le(amount, balance);
+euint64 transferred = FHE.select(canTransfer, amount, FHE.asEuint64(0));
+\`\`\`
+
+The transaction always succeeds, and only the sender and the recipient can decrypt what actually moved.
+
+Ready? Let's write the contract! 🚀`,
+        interactive: false
+      },
+      {
+        id: 'token-contract',
+        title: 'Building the Confidential Token Contract',
+        description: 'Encrypted balances, transfers and allowances',
+        content: `# Creating the ConfidentialToken Smart Contract
+
+## 📦 Encrypted State
+
+\`\`\`solidity
+mapping(address => euint64) private _balances;
+mapping(address => mapping(address => euint64)) private _allowances;
+\`\`\`
+
+We use \`euint64\` rather than \`euint32\` so that balances with 6 decimals can hold realistic amounts.
+
+## 🔄 Transfers
+
+\`transfer\` receives an encrypted amount plus its input proof, checks the balance with \`FHE.le\` and moves \`FHE.select(canTransfer, amount, 0)\`.
+
+## ✅ Allowances
+
+\`transferFrom\` checks **both** the allowance and the balance, combining the two encrypted booleans with \`FHE.and\`. The allowance is reduced by the amount that was actually moved, so a failed transfer leaves it untouched.
+
+## 🔐 Access Control
+
+After every update, the new balance handle is allowed to the contract (\`FHE.allowThis\`) and to its holder (\`FHE.allow\`). Nobody else can decrypt it - not even the token owner.`,
+        code: {
+          solidity: `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, ebool, euint64, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+
+contract ConfidentialToken is SepoliaConfig {
+    address public owner;
+    uint64 public totalSupply;
+    
+    mapping(address => euint64) private _balances;
+    mapping(address => mapping(address => euint64)) private _allowances;
+    
+    event Transfer(address indexed from, address indexed to);
+    event Approval(address indexed holder, address indexed spender);
+    
+    constructor() {
+        owner = msg.sender;
+    }
+    
+    function mint(address to, uint64 amount) external {
+        require(msg.sender == owner, "Only owner can perform this action");
+        totalSupply += amount;
+        
+        _balances[to] = FHE.add(_balances[to], amount);
+        FHE.allowThis(_balances[to]);
+        FHE.allow(_balances[to], to);
+    }
+    
+    function balanceOf(address account) external view returns (euint64) {
+        return _balances[account];
+    }
+    
+    function transfer(address to, externalEuint64 encryptedAmount, bytes calldata inputProof) external {
+        _transfer(msg.sender, to, FHE.fromExternal(encryptedAmount, inputProof));
+    }
+    
+    function approve(address spender, externalEuint64 encryptedAmount, bytes calldata inputProof) external {
+        euint64 amount = FHE.fromExternal(encryptedAmount, inputProof);
+        _allowances[msg.sender][spender] = amount;
+        FHE.allowThis(amount);
+        FHE.allow(amount, msg.sender);
+        FHE.allow(amount, spender);
+        emit Approval(msg.sender, spender);
+    }
+    
+    function transferFrom(
+        address from,
+        address to,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof
+    ) external {
+        euint64 amount = FHE.fromExternal(encryptedAmount, inputProof);
+        euint64 currentAllowance = _allowances[from][msg.sender];
+        
+        // Check allowance AND balance without revealing either
+        ebool ok = FHE.and(FHE.le(amount, currentAllowance), FHE.le(amount, _balances[from]));
+        euint64 spendable = FHE.select(ok, amount, FHE.asEuint64(0));
+        
+        _allowances[from][msg.sender] = FHE.sub(currentAllowance, spendable);
+        FHE.allowThis(_allowances[from][msg.sender]);
+        FHE.allow(_allowances[from][msg.sender], from);
+        FHE.allow(_allowances[from][msg.sender], msg.sender);
+        
+        _transfer(from, to, spendable);
+    }
+    
+    function _transfer(address from, address to, euint64 amount) internal {
+        // Insufficient balance? Transfer 0 instead of reverting
+        ebool canTransfer = FHE.le(amount, _balances[from]);
+        euint64 transferred = FHE.select(canTransfer, amount, FHE.asEuint64(0));
+        
+        _balances[from] = FHE.sub(_balances[from], transferred);
+        FHE.allowThis(_balances[from]);
+        FHE.allow(_balances[from], from);
+        
+        _balances[to] = FHE.add(_balances[to], transferred);
+        FHE.allowThis(_balances[to]);
+        FHE.allow(_balances[to], to);
+        
+        emit Transfer(from, to);
+    }
+}`
+        },
+        interactive: true
+      },
+      {
+        id: 'token-deployment',
+        title: 'Deploying and Testing the Token',
+        description: 'Deploy the token, mint, and send a confidential transfer',
+        content: `# Deploying and Testing the Confidential Token
+
+## 🚀 Deployment
+
+\`\`\`bash
+npx hardhat deploy --network localhost --tags ConfidentialToken
+\`\`\`
+
+The deploy script creates "Confidential Token" (CTKN) with the deployer as owner.
+
+## 🧪 Testing Scenarios
+
+### Scenario 1: Mint and Transfer
+1. **Owner mints** 1000 CTKN to Alice
+2. **Alice encrypts** 300 with \`input.add64(300)\` and calls \`transfer\`
+3. **Alice and Bob decrypt** their balances: 700 and 300
+
+### Scenario 2: Insufficient Balance
+1. **Bob tries to send** 301 CTKN
+2. The transaction **succeeds**, but moves 0
+3. Bob's balance is still 300 - and nobody watching the chain can tell
+
+### Scenario 3: Allowances
+1. **Alice approves** Bob for 200
+2. **Bob calls transferFrom** for 250: moves 0, allowance unchanged
+3. **Bob calls transferFrom** for 150: moves 150, allowance drops to 50
+
+## 🔍 Privacy Analysis
+
+### What's Hidden
+- ✅ Every balance
+- ✅ Every transfer and allowance amount
+- ✅ Whether a transfer succeeded
+
+### What's Visible
+- ✅ Who sent tokens to whom (\`Transfer\` events)
+- ✅ Minted amounts and the total supply
+
+Congratulations! You've built the building block behind confidential payments, payroll and private DeFi. 🏆`,
+        interactive: false
+      }
+    ]
   }
 ];
 
@@ -0,0 +1,192 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, ebool, euint64, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {RoleAccess} from "./RoleAccess.sol";
+
+/// @title Confidential Token
+/// @author Zama Community Tutorial
+/// @notice An ERC-20-style token whose balances, transfer amounts and allowances stay encrypted
+/// @dev Demonstrates the most common FHEVM pattern: a transfer that cannot revert on an
+///      insufficient balance (that would leak it), so it moves `FHE.select(ok, amount, 0)` instead
+contract ConfidentialToken is SepoliaConfig, RoleAccess {
+    string public name;
+    string public symbol;
+    uint8 public constant decimals = 6;
+    
+    // Total supply is public: it only changes through plaintext mints
+    uint64 public totalSupply;
+    
+    // Encrypted balances and allowances
+    mapping(address => euint64) private _balances;
+    mapping(address => mapping(address => euint64)) private _allowances;
+    
+    // Events (amounts are never emitted, only who interacted with whom)
+    event Transfer(address indexed from, address indexed to);
+    event Approval(address indexed holder, address indexed spender);
+    event Mint(address indexed to, uint64 amount);
+    
+    /// @notice Create the token
+    /// @param tokenName The token name
+    /// @param tokenSymbol The token symbol
+    constructor(string memory tokenName, string memory tokenSymbol) {
+        _initializeRoleAccess(msg.sender);
+        name = tokenName;
+        symbol = tokenSymbol;
+    }
+    
+    /// @notice Mint new tokens to an account (only owner)
+    /// @param to The recipient of the new tokens
+    /// @param amount The plaintext amount to mint
+    function mint(address to, uint64 amount) external onlyOwner {
+        require(to != address(0), "Invalid recipient address");
+        
+        // Checked plaintext addition: the encrypted balance below can therefore never overflow
+        totalSupply += amount;
+        
+        _balances[to] = FHE.add(_balances[to], amount);
+        FHE.allowThis(_balances[to]);
+        FHE.allow(_balances[to], to);
+        
+        emit Mint(to, amount);
+        emit Transfer(address(0), to);
+    }
+    
+    /// @notice Get an account's encrypted balance
+    /// @param account The account to query
+    /// @return The encrypted balance (only the account can decrypt)
+    function balanceOf(address account) external view returns (euint64) {
+        return _balances[account];
+    }
+    
+    /// @notice Get the encrypted amount a spender may still transfer on behalf of a holder
+    /// @param holder The account that granted the allowance
+    /// @param spender The account allowed to spend
+    /// @return The encrypted allowance (only the holder and the spender can decrypt)
+    function allowance(address holder, address spender) external view returns (euint64) {
+        return _allowances[holder][spender];
+    }
+    
+    /// @notice Transfer an encrypted amount to another account
+    /// @param to The recipient
+    /// @param encryptedAmount The encrypted amount to transfer
+    /// @param inputProof Proof that the encrypted amount is valid
+    /// @return transferred The encrypted amount actually moved (0 if the balance was insufficient)
+    function transfer(address to, externalEuint64 encryptedAmount, bytes calldata inputProof)
+        external
+        returns (euint64 transferred)
+    {
+        return _transfer(msg.sender, to, FHE.fromExternal(encryptedAmount, inputProof));
+    }
+    
+    /// @notice Transfer an encrypted amount the caller already has access to
+    /// @param to The recipient
+    /// @param amount An encrypted amount handle the caller is allowed to use
+    /// @return transferred The encrypted amount actually moved (0 if the balance was insufficient)
+    function transfer(address to, euint64 amount) external returns (euint64 transferred) {
+        require(FHE.isSenderAllowed(amount), "Sender cannot use this amount");
+        return _transfer(msg.sender, to, amount);
+    }
+    
+    /// @notice Approve a spender to transfer up to an encrypted amount
+    /// @param spender The account allowed to spend
+    /// @param encryptedAmount The encrypted allowance
+    /// @param inputProof Proof that the encrypted amount is valid
+    function approve(address spender, externalEuint64 encryptedAmount, bytes calldata inputProof) external {
+        _approve(msg.sender, spender, FHE.fromExternal(encryptedAmount, inputProof));
+    }
+    
+    /// @notice Approve a spender with an encrypted amount the caller already has access to
+    /// @param spender The account allowed to spend
+    /// @param amount An encrypted amount handle the caller is allowed to use
+    function approve(address spender, euint64 amount) external {
+        require(FHE.isSenderAllowed(amount), "Sender cannot use this amount");
+        _approve(msg.sender, spender, amount);
+    }
+    
+    /// @notice Transfer an encrypted amount on behalf of a holder, spending the caller's allowance
+    /// @param from The holder whose tokens are moved
+    /// @param to The recipient
+    /// @param encryptedAmount The encrypted amount to transfer
+    /// @param inputProof Proof that the encrypted amount is valid
+    /// @return transferred The encrypted amount actually moved (0 if allowance or balance was insufficient)
+    function transferFrom(
+        address from,
+        address to,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof
+    ) external returns (euint64 transferred) {
+        return _transferFrom(from, to, FHE.fromExternal(encryptedAmount, inputProof));
+    }
+    
+    /// @notice Transfer on behalf of a holder with an encrypted amount the caller already has access to
+    /// @param from The holder whose tokens are moved
+    /// @param to The recipient
+    /// @param amount An encrypted amount handle the caller is allowed to use
+    /// @return transferred The encrypted amount actually moved (0 if allowance or balance was insufficient)
+    function transferFrom(address from, address to, euint64 amount) external returns (euint64 transferred) {
+        require(FHE.isSenderAllowed(amount), "Sender cannot use this amount");
+        return _transferFrom(from, to, amount);
+    }
+    
+    /// @notice Internal function spending an allowance and moving tokens
+    /// @param from The holder whose tokens are moved
+    /// @param to The recipient
+    /// @param amount The encrypted amount requested
+    /// @return transferred The encrypted amount actually moved
+    function _transferFrom(address from, address to, euint64 amount) internal returns (euint64 transferred) {
+        euint64 currentAllowance = _allowances[from][msg.sender];
+        
+        // Both checks happen under encryption: a failing transfer moves 0 instead of reverting
+        ebool withinAllowance = FHE.le(amount, currentAllowance);
+        ebool withinBalance = FHE.le(amount, _balances[from]);
+        euint64 spendable = FHE.select(FHE.and(withinAllowance, withinBalance), amount, FHE.asEuint64(0));
+        
+        _approve(from, msg.sender, FHE.sub(currentAllowance, spendable));
+        return _transfer(from, to, spendable);
+    }
+    
+    /// @notice Internal function moving tokens, or nothing if the balance is insufficient
+    /// @param from The sender
+    /// @param to The recipient
+    /// @param amount The encrypted amount requested
+    /// @return transferred The encrypted amount actually moved
+    function _transfer(address from, address to, euint64 amount) internal returns (euint64 transferred) {
+        require(to != address(0), "Invalid recipient address");
+        
+        ebool canTransfer = FHE.le(amount, _balances[from]);
+        transferred = FHE.select(canTransfer, amount, FHE.asEuint64(0));
+        
+        _balances[from] = FHE.sub(_balances[from], transferred);
+        FHE.allowThis(_balances[from]);
+        FHE.allow(_balances[from], from);
+        
+        _balances[to] = FHE.add(_balances[to], transferred);
+        FHE.allowThis(_balances[to]);
+        FHE.allow(_balances[to], to);
+        
+        // Both parties (and the calling contract, if any) may inspect what was moved
+        FHE.allowThis(transferred);
+        FHE.allow(transferred, from);
+        FHE.allow(transferred, to);
+        FHE.allowTransient(transferred, msg.sender);
+        
+        emit Transfer(from, to);
+    }
+    
+    /// @notice Internal function storing an allowance
+    /// @param holder The account granting the allowance
+    /// @param spender The account allowed to spend
+    /// @param amount The encrypted allowance
+    function _approve(address holder, address spender, euint64 amount) internal {
+        require(spender != address(0), "Invalid spender address");
+        
+        _allowances[holder][spender] = amount;
+        FHE.allowThis(amount);
+        FHE.allow(amount, holder);
+        FHE.allow(amount, spender);
+        
+        emit Approval(holder, spender);
+    }
+}
@@ -1,34 +1,95 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import {FHE, euint32, externalEuint32} from "@fhevm/solidity/lib/FHE.sol";
-import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {FHE, ebool, euint8, euint16, euint32, euint64, euint128, externalEuint8, externalEuint16, externalEuint32, externalEuint64, externalEuint128} from "@fhevm/solidity/lib/FHE.sol";
+import {SepoliaConfig, ZamaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {RoleAccess} from "./RoleAccess.sol";
 
 /// @title Hello FHEVM - Your First Encrypted Counter
 /// @author Zama Community Tutorial
 /// @notice A beginner-friendly example showing encrypted arithmetic operations on blockchain
 /// @dev This contract demonstrates basic FHEVM operations: encryption, computation, and decryption
-contract HelloFHEVM is SepoliaConfig {
+contract HelloFHEVM is SepoliaConfig, RoleAccess {
     // Encrypted counter - stored on-chain but always encrypted!
     euint32 private _counter;
     
-    // Track the owner for decryption permissions
-    address public owner;
+    // The same counter in other widths; each wraps around at its own bit size
+    euint8 private _counter8;
+    euint16 private _counter16;
+    euint64 private _counter64;
+    euint128 private _counter128;
+    
+    // Personal counters: each user can decrypt only their own
+    mapping(address => euint32) private _userCounters;
+    
+    // Encrypted sum of all personal counters, readable by the owner and admins
+    euint32 private _aggregate;
+    
+    // Maximum number of viewers, bounding the cost of re-sharing each new counter handle
+    uint256 public constant MAX_VIEWERS = 20;
+    
+    // Addresses allowed to decrypt the counter besides the owner and admins
+    address[] private _viewers;
+    mapping(address => uint256) private _viewerIndex; // 1-based, 0 = not a viewer
+    
+    // When enabled, arithmetic clamps to [0, 2^32 - 1] instead of wrapping around
+    bool public saturatingMode;
+    
+    // Encrypted flag: did the last saturating operation have to clamp its result?
+    ebool private _lastOpFailed;
     
     // Events to track operations (values remain encrypted)
     event CounterUpdated(address indexed user, string operation);
     event CounterReset(address indexed user);
     event PermissionGranted(address indexed user);
+    event PermissionRevoked(address indexed user);
+    event SaturatingModeToggled(bool enabled);
+    event PersonalCounterUpdated(address indexed user, string operation);
+    event ResultComputed(address indexed user, string operation, euint32 result);
+    event CounterCast(address indexed user, uint16 fromBits, uint16 toBits);
     
-    /// @notice Initialize the contract with an encrypted zero counter
+    // Results derived from the counter reveal it, so only those who may decrypt it can ask for them
+    modifier onlyCounterReaders() {
+        require(
+            _viewerIndex[msg.sender] != 0 || hasRole(ADMIN_ROLE, msg.sender),
+            "Only viewers and admins can read the counter"
+        );
+        _;
+    }
+    
+    /// @notice Initialize a direct deployment
+    /// @dev This also locks the implementation behind a proxy, which cannot be initialized again
     constructor() {
-        owner = msg.sender;
+        initialize();
+    }
+    
+    /// @notice Initialize the contract with an encrypted zero counter and make the caller owner
+    /// @dev Replaces the constructor for proxy deployments, so it also points the proxy's own
+    ///      storage at the Sepolia coprocessor (SepoliaConfig only configures the implementation)
+    function initialize() public {
+        _initializeRoleAccess(msg.sender);
+        FHE.setCoprocessor(ZamaConfig.getSepoliaConfig());
+        
         // Initialize counter to encrypted zero
         _counter = FHE.asEuint32(0);
         
-        // Grant permissions to the contract and owner
-        FHE.allowThis(_counter);
-        FHE.allow(_counter, owner);
+        // Grant permissions to the contract, owner and admins
+        _shareCounter();
+        
+        // Counters of the other widths start at zero too
+        _counter8 = FHE.asEuint8(0);
+        _counter16 = FHE.asEuint16(0);
+        _counter64 = FHE.asEuint64(0);
+        _counter128 = FHE.asEuint128(0);
+        _shareCounter8();
+        _shareCounter16();
+        _shareCounter64();
+        _shareCounter128();
+        
+        // The aggregate of personal counters also starts at zero
+        _aggregate = FHE.asEuint32(0);
+        FHE.allowThis(_aggregate);
+        _allowAdmins(_aggregate);
         
         emit CounterUpdated(msg.sender, "initialized");
     }
@@ -40,6 +101,45 @@ contract HelloFHEVM is SepoliaConfig {
         return _counter;
     }
     
+    /// @notice Get the encrypted 8-bit counter
+    /// @return The encrypted counter (only authorized users can decrypt)
+    function getCounter8() external view returns (euint8) {
+        return _counter8;
+    }
+    
+    /// @notice Get the encrypted 16-bit counter
+    /// @return The encrypted counter (only authorized users can decrypt)
+    function getCounter16() external view returns (euint16) {
+        return _counter16;
+    }
+    
+    /// @notice Get the encrypted 64-bit counter
+    /// @return The encrypted counter (only authorized users can decrypt)
+    function getCounter64() external view returns (euint64) {
+        return _counter64;
+    }
+    
+    /// @notice Get the encrypted 128-bit counter
+    /// @return The encrypted counter (only authorized users can decrypt)
+    function getCounter128() external view returns (euint128) {
+        return _counter128;
+    }
+    
+    /// @notice Get the encrypted overflow/underflow flag of the last saturating operation
+    /// @return An encrypted boolean, decryptable by the caller of that operation
+    /// @dev Only updated while `saturatingMode` is enabled
+    function getLastOpFailed() external view returns (ebool) {
+        return _lastOpFailed;
+    }
+    
+    /// @notice Switch between wrapping and saturating arithmetic (only admins)
+    /// @param enabled True to clamp results instead of letting them wrap around
+    function setSaturatingMode(bool enabled) external {
+        require(hasRole(ADMIN_ROLE, msg.sender), "Only admin can change arithmetic mode");
+        saturatingMode = enabled;
+        emit SaturatingModeToggled(enabled);
+    }
+    
     /// @notice Add an encrypted value to the counter
     /// @param encryptedValue The encrypted value to add (created by FHEVM client)
     /// @param inputProof Cryptographic proof that the encrypted value is valid
@@ -51,12 +151,10 @@ contract HelloFHEVM is SepoliaConfig {
         
         // Perform encrypted addition - the magic of FHE!
         // Neither the current counter value nor the input value is ever decrypted
-        _counter = FHE.add(_counter, value);
+        _counter = _checkedAdd(value);
         
-        // Grant permissions to decrypt the result
-        FHE.allowThis(_counter);
-        FHE.allow(_counter, owner);
-        FHE.allow(_counter, msg.sender); // Allow the user who performed the operation
+        // Share the new handle with the owner, admins and viewers only
+        _shareCounter();
         
         emit CounterUpdated(msg.sender, "add");
     }
@@ -64,17 +162,15 @@ contract HelloFHEVM is SepoliaConfig {
     /// @notice Subtract an encrypted value from the counter
     /// @param encryptedValue The encrypted value to subtract
     /// @param inputProof Proof that the encrypted value is valid
-    /// @dev Performs encrypted subtraction - result may underflow in encrypted space
+    /// @dev Performs encrypted subtraction - result wraps below zero unless `saturatingMode` is on
     function subtract(externalEuint32 encryptedValue, bytes calldata inputProof) external {
         euint32 value = FHE.fromExternal(encryptedValue, inputProof);
         
         // Encrypted subtraction
-        _counter = FHE.sub(_counter, value);
+        _counter = _checkedSub(value);
         
         // Grant permissions
-        FHE.allowThis(_counter);
-        FHE.allow(_counter, owner);
-        FHE.allow(_counter, msg.sender);
+        _shareCounter();
         
         emit CounterUpdated(msg.sender, "subtract");
     }
@@ -87,46 +183,119 @@ contract HelloFHEVM is SepoliaConfig {
         euint32 value = FHE.fromExternal(encryptedValue, inputProof);
         
         // Encrypted multiplication
-        _counter = FHE.mul(_counter, value);
+        _counter = _checkedMul(value);
         
         // Grant permissions
-        FHE.allowThis(_counter);
-        FHE.allow(_counter, owner);
-        FHE.allow(_counter, msg.sender);
+        _shareCounter();
         
         emit CounterUpdated(msg.sender, "multiply");
     }
     
-    /// @notice Reset counter to zero (only owner)
+    /// @notice Get a user's personal encrypted counter
+    /// @param user The owner of the counter
+    /// @return The encrypted counter (only that user can decrypt)
+    function getUserCounter(address user) external view returns (euint32) {
+        return _userCounters[user];
+    }
+    
+    /// @notice Get the encrypted sum of all personal counters
+    /// @return The encrypted aggregate (only the owner and admins can decrypt)
+    function getAggregate() external view returns (euint32) {
+        return _aggregate;
+    }
+    
+    /// @notice Add an encrypted value to the caller's personal counter
+    /// @param encryptedValue The encrypted value to add
+    /// @param inputProof Proof that the encrypted value is valid
+    /// @dev The same encrypted value is added to the aggregate, so nobody learns who added what
+    function addToMyCounter(externalEuint32 encryptedValue, bytes calldata inputProof) external {
+        euint32 value = FHE.fromExternal(encryptedValue, inputProof);
+        _addToUserCounter(value);
+        
+        emit PersonalCounterUpdated(msg.sender, "add");
+    }
+    
+    /// @notice Increment the caller's personal counter by 1
+    function incrementMyCounter() external {
+        _addToUserCounter(FHE.asEuint32(1));
+        
+        emit PersonalCounterUpdated(msg.sender, "increment");
+    }
+    
+    /// @notice Reset counter to zero (only operators)
     /// @dev Useful for demo purposes and testing
     function reset() external {
-        require(msg.sender == owner, "Only owner can reset");
+        require(hasRole(OPERATOR_ROLE, msg.sender), "Only operator can reset");
         
         _counter = FHE.asEuint32(0);
-        FHE.allowThis(_counter);
-        FHE.allow(_counter, owner);
+        _shareCounter();
         
         emit CounterReset(msg.sender);
     }
     
-    /// @notice Grant decryption permission to a specific address
+    /// @notice Add an address to the viewer set, allowing it to decrypt the counters
     /// @param user The address to grant permission to
-    /// @dev Only owner can grant permissions
+    /// @dev Only admins can grant permissions. The viewer is allowed on the current handles
+    ///      and on every handle the counters get until the permission is revoked.
     function grantPermission(address user) external {
-        require(msg.sender == owner, "Only owner can grant permissions");
+        require(hasRole(ADMIN_ROLE, msg.sender), "Only admin can grant permissions");
+        require(user != address(0), "Invalid viewer address");
+        require(_viewerIndex[user] == 0, "Already a viewer");
+        require(_viewers.length < MAX_VIEWERS, "Too many viewers");
         
+        _viewers.push(user);
+        _viewerIndex[user] = _viewers.length;
         FHE.allow(_counter, user);
+        FHE.allow(_counter8, user);
+        FHE.allow(_counter16, user);
+        FHE.allow(_counter64, user);
+        FHE.allow(_counter128, user);
         
         emit PermissionGranted(user);
     }
     
+    /// @notice Remove an address from the viewer set
+    /// @param user The address to revoke permission from
+    /// @dev Only admins can revoke permissions. ACL entries are permanent, so the viewer can
+    ///      still decrypt the handle it was already allowed on; revocation takes effect on the
+    ///      next counter update, whose new handle is only allowed for current viewers.
+    function revokePermission(address user) external {
+        require(hasRole(ADMIN_ROLE, msg.sender), "Only admin can revoke permissions");
+        uint256 index = _viewerIndex[user];
+        require(index != 0, "Not a viewer");
+        
+        // Swap and pop to keep the viewer list dense
+        address last = _viewers[_viewers.length - 1];
+        _viewers[index - 1] = last;
+        _viewerIndex[last] = index;
+        _viewers.pop();
+        delete _viewerIndex[user];
+        
+        emit PermissionRevoked(user);
+    }
+    
+    /// @notice List the addresses currently in the viewer set
+    /// @return viewers The viewers (the owner and admins can always decrypt and are not listed)
+    function listViewers() external view returns (address[] memory viewers) {
+        return _viewers;
+    }
+    
+    /// @notice Check whether an address is in the viewer set
+    /// @param user The address to check
+    /// @return True if the address is a current viewer
+    function isViewer(address user) external view returns (bool) {
+        return _viewerIndex[user] != 0;
+    }
+    
     /// @notice Check if the counter is greater than an encrypted threshold
     /// @param encryptedThreshold The encrypted threshold to compare against
     /// @param inputProof Proof for the encrypted threshold
     /// @return An encrypted boolean result (true if counter > threshold)
-    /// @dev Demonstrates encrypted comparison operations
+    /// @dev Demonstrates encrypted comparison operations. Restricted to current viewers, the
+    ///      owner and admins: repeated comparisons would narrow the counter down.
     function isGreaterThan(externalEuint32 encryptedThreshold, bytes calldata inputProof) 
         external 
+        onlyCounterReaders
         returns (euint32) 
     {
         euint32 threshold = FHE.fromExternal(encryptedThreshold, inputProof);
@@ -138,6 +307,7 @@ contract HelloFHEVM is SepoliaConfig {
         FHE.allowThis(result);
         FHE.allow(result, msg.sender);
         
+        emit ResultComputed(msg.sender, "gt", result);
         return result;
     }
     
@@ -145,9 +315,11 @@ contract HelloFHEVM is SepoliaConfig {
     /// @param encryptedValue The encrypted value to compare with
     /// @param inputProof Proof for the encrypted value
     /// @return The encrypted minimum value
-    /// @dev Shows conditional operations on encrypted data
+    /// @dev Shows conditional operations on encrypted data. Restricted like `isGreaterThan`,
+    ///      as min(counter, 2^32 - 1) is the counter itself.
     function min(externalEuint32 encryptedValue, bytes calldata inputProof) 
         external 
+        onlyCounterReaders
         returns (euint32) 
     {
         euint32 value = FHE.fromExternal(encryptedValue, inputProof);
@@ -159,6 +331,30 @@ contract HelloFHEVM is SepoliaConfig {
         FHE.allowThis(result);
         FHE.allow(result, msg.sender);
         
+        emit ResultComputed(msg.sender, "min", result);
+        return result;
+    }
+    
+    /// @notice Get the maximum between counter and an encrypted value
+    /// @param encryptedValue The encrypted value to compare with
+    /// @param inputProof Proof for the encrypted value
+    /// @return The encrypted maximum value
+    /// @dev Uses the built-in FHE.max instead of a comparison plus select. Restricted like
+    ///      `min`, as max(counter, 0) is the counter itself.
+    function max(externalEuint32 encryptedValue, bytes calldata inputProof) 
+        external 
+        onlyCounterReaders
+        returns (euint32) 
+    {
+        euint32 value = FHE.fromExternal(encryptedValue, inputProof);
+        
+        euint32 result = FHE.max(_counter, value);
+        
+        // Grant permissions for the result
+        FHE.allowThis(result);
+        FHE.allow(result, msg.sender);
+        
+        emit ResultComputed(msg.sender, "max", result);
         return result;
     }
     
@@ -166,11 +362,9 @@ contract HelloFHEVM is SepoliaConfig {
     /// @dev Uses a hardcoded encrypted value of 1
     function increment() external {
         euint32 one = FHE.asEuint32(1);
-        _counter = FHE.add(_counter, one);
+        _counter = _checkedAdd(one);
         
-        FHE.allowThis(_counter);
-        FHE.allow(_counter, owner);
-        FHE.allow(_counter, msg.sender);
+        _shareCounter();
         
         emit CounterUpdated(msg.sender, "increment");
     }
@@ -179,12 +373,354 @@ contract HelloFHEVM is SepoliaConfig {
     /// @dev Uses a hardcoded encrypted value of 1
     function decrement() external {
         euint32 one = FHE.asEuint32(1);
-        _counter = FHE.sub(_counter, one);
+        _counter = _checkedSub(one);
         
-        FHE.allowThis(_counter);
-        FHE.allow(_counter, owner);
-        FHE.allow(_counter, msg.sender);
+        _shareCounter();
         
         emit CounterUpdated(msg.sender, "decrement");
     }
+    
+    /// @notice Divide the counter by a plaintext divisor
+    /// @param divisor The public divisor (FHE division only supports plaintext divisors)
+    function divide(uint32 divisor) external {
+        require(divisor != 0, "Cannot divide by zero");
+        
+        _counter = FHE.div(_counter, divisor);
+        _shareCounter();
+        
+        emit CounterUpdated(msg.sender, "divide");
+    }
+    
+    /// @notice Replace the counter with its remainder modulo a plaintext divisor
+    /// @param divisor The public divisor
+    function remainder(uint32 divisor) external {
+        require(divisor != 0, "Cannot divide by zero");
+        
+        _counter = FHE.rem(_counter, divisor);
+        _shareCounter();
+        
+        emit CounterUpdated(msg.sender, "remainder");
+    }
+    
+    /// @notice Bitwise AND the counter with an encrypted mask
+    /// @param encryptedValue The encrypted mask
+    /// @param inputProof Proof that the encrypted value is valid
+    function bitwiseAnd(externalEuint32 encryptedValue, bytes calldata inputProof) external {
+        euint32 value = FHE.fromExternal(encryptedValue, inputProof);
+        
+        _counter = FHE.and(_counter, value);
+        _shareCounter();
+        
+        emit CounterUpdated(msg.sender, "and");
+    }
+    
+    /// @notice Bitwise OR the counter with an encrypted mask
+    /// @param encryptedValue The encrypted mask
+    /// @param inputProof Proof that the encrypted value is valid
+    function bitwiseOr(externalEuint32 encryptedValue, bytes calldata inputProof) external {
+        euint32 value = FHE.fromExternal(encryptedValue, inputProof);
+        
+        _counter = FHE.or(_counter, value);
+        _shareCounter();
+        
+        emit CounterUpdated(msg.sender, "or");
+    }
+    
+    /// @notice Bitwise XOR the counter with an encrypted mask
+    /// @param encryptedValue The encrypted mask
+    /// @param inputProof Proof that the encrypted value is valid
+    function bitwiseXor(externalEuint32 encryptedValue, bytes calldata inputProof) external {
+        euint32 value = FHE.fromExternal(encryptedValue, inputProof);
+        
+        _counter = FHE.xor(_counter, value);
+        _shareCounter();
+        
+        emit CounterUpdated(msg.sender, "xor");
+    }
+    
+    /// @notice Shift the counter left by a plaintext number of bits
+    /// @param bits Number of bits to shift (taken modulo 32)
+    function shiftLeft(uint8 bits) external {
+        _counter = FHE.shl(_counter, bits);
+        _shareCounter();
+        
+        emit CounterUpdated(msg.sender, "shl");
+    }
+    
+    /// @notice Shift the counter right by a plaintext number of bits
+    /// @param bits Number of bits to shift (taken modulo 32)
+    function shiftRight(uint8 bits) external {
+        _counter = FHE.shr(_counter, bits);
+        _shareCounter();
+        
+        emit CounterUpdated(msg.sender, "shr");
+    }
+    
+    /// @notice Rotate the counter left by a plaintext number of bits
+    /// @param bits Number of bits to rotate (taken modulo 32)
+    function rotateLeft(uint8 bits) external {
+        _counter = FHE.rotl(_counter, bits);
+        _shareCounter();
+        
+        emit CounterUpdated(msg.sender, "rotl");
+    }
+    
+    /// @notice Rotate the counter right by a plaintext number of bits
+    /// @param bits Number of bits to rotate (taken modulo 32)
+    function rotateRight(uint8 bits) external {
+        _counter = FHE.rotr(_counter, bits);
+        _shareCounter();
+        
+        emit CounterUpdated(msg.sender, "rotr");
+    }
+    
+    /// @notice Negate the counter (two's complement, i.e. 2^32 - counter)
+    function negate() external {
+        _counter = FHE.neg(_counter);
+        _shareCounter();
+        
+        emit CounterUpdated(msg.sender, "neg");
+    }
+    
+    /// @notice Replace the counter with an encrypted random value
+    /// @dev Nobody, not even the caller, learns the value unless allowed to decrypt the counter
+    function randomize() external {
+        _counter = FHE.randEuint32();
+        _shareCounter();
+        
+        emit CounterUpdated(msg.sender, "randomize");
+    }
+    
+    /// @notice Add an encrypted random value to the counter
+    /// @dev Goes through the same overflow handling as `add` when `saturatingMode` is on
+    function addRandom() external {
+        _counter = _checkedAdd(FHE.randEuint32());
+        _shareCounter();
+        
+        emit CounterUpdated(msg.sender, "addRandom");
+    }
+    
+    /// @notice Add an encrypted 8-bit value to the 8-bit counter
+    /// @param encryptedValue The encrypted value to add (created with `add8` on the client)
+    /// @param inputProof Proof that the encrypted value is valid
+    function addToCounter8(externalEuint8 encryptedValue, bytes calldata inputProof) external {
+        _counter8 = FHE.add(_counter8, FHE.fromExternal(encryptedValue, inputProof));
+        _shareCounter8();
+        
+        emit CounterUpdated(msg.sender, "add8");
+    }
+    
+    /// @notice Add an encrypted 16-bit value to the 16-bit counter
+    /// @param encryptedValue The encrypted value to add (created with `add16` on the client)
+    /// @param inputProof Proof that the encrypted value is valid
+    function addToCounter16(externalEuint16 encryptedValue, bytes calldata inputProof) external {
+        _counter16 = FHE.add(_counter16, FHE.fromExternal(encryptedValue, inputProof));
+        _shareCounter16();
+        
+        emit CounterUpdated(msg.sender, "add16");
+    }
+    
+    /// @notice Add an encrypted 64-bit value to the 64-bit counter
+    /// @param encryptedValue The encrypted value to add (created with `add64` on the client)
+    /// @param inputProof Proof that the encrypted value is valid
+    function addToCounter64(externalEuint64 encryptedValue, bytes calldata inputProof) external {
+        _counter64 = FHE.add(_counter64, FHE.fromExternal(encryptedValue, inputProof));
+        _shareCounter64();
+        
+        emit CounterUpdated(msg.sender, "add64");
+    }
+    
+    /// @notice Add an encrypted 128-bit value to the 128-bit counter
+    /// @param encryptedValue The encrypted value to add (created with `add128` on the client)
+    /// @param inputProof Proof that the encrypted value is valid
+    function addToCounter128(externalEuint128 encryptedValue, bytes calldata inputProof) external {
+        _counter128 = FHE.add(_counter128, FHE.fromExternal(encryptedValue, inputProof));
+        _shareCounter128();
+        
+        emit CounterUpdated(msg.sender, "add128");
+    }
+    
+    /// @notice Copy the 32-bit counter into the counter of another width
+    /// @param toBits 8, 16, 64 or 128
+    /// @dev Narrowing casts keep only the low bits, widening casts are lossless
+    function castCounter(uint16 toBits) external {
+        if (toBits == 8) {
+            _counter8 = FHE.asEuint8(_counter);
+            _shareCounter8();
+        } else if (toBits == 16) {
+            _counter16 = FHE.asEuint16(_counter);
+            _shareCounter16();
+        } else if (toBits == 64) {
+            _counter64 = FHE.asEuint64(_counter);
+            _shareCounter64();
+        } else if (toBits == 128) {
+            _counter128 = FHE.asEuint128(_counter);
+            _shareCounter128();
+        } else {
+            revert("Unsupported width");
+        }
+        
+        emit CounterCast(msg.sender, 32, toBits);
+    }
+    
+    /// @notice Copy the counter of another width into the 32-bit counter
+    /// @param fromBits 8, 16, 64 or 128
+    /// @dev Casting down from 64 or 128 bits keeps only the low 32 bits
+    function loadCounterFrom(uint16 fromBits) external {
+        if (fromBits == 8) {
+            _counter = FHE.asEuint32(_counter8);
+        } else if (fromBits == 16) {
+            _counter = FHE.asEuint32(_counter16);
+        } else if (fromBits == 64) {
+            _counter = FHE.asEuint32(_counter64);
+        } else if (fromBits == 128) {
+            _counter = FHE.asEuint32(_counter128);
+        } else {
+            revert("Unsupported width");
+        }
+        _shareCounter();
+        
+        emit CounterCast(msg.sender, fromBits, 32);
+    }
+    
+    /// @notice Internal function adding a value to the caller's personal counter and the aggregate
+    /// @param value The encrypted value to add
+    function _addToUserCounter(euint32 value) internal {
+        // An uninitialized counter counts as encrypted zero
+        _userCounters[msg.sender] = FHE.add(_userCounters[msg.sender], value);
+        FHE.allowThis(_userCounters[msg.sender]);
+        FHE.allow(_userCounters[msg.sender], msg.sender);
+        
+        _aggregate = FHE.add(_aggregate, value);
+        FHE.allowThis(_aggregate);
+        _allowAdmins(_aggregate);
+    }
+    
+    /// @notice Internal function adding to the counter, saturating at the maximum if enabled
+    /// @param value The encrypted value to add
+    /// @return The new encrypted counter value
+    function _checkedAdd(euint32 value) internal returns (euint32) {
+        euint32 sum = FHE.add(_counter, value);
+        if (!saturatingMode) {
+            return sum;
+        }
+        
+        // Unsigned addition overflowed exactly when the wrapped sum is smaller than an operand
+        ebool overflow = FHE.lt(sum, _counter);
+        _recordOpResult(overflow);
+        return FHE.select(overflow, FHE.asEuint32(type(uint32).max), sum);
+    }
+    
+    /// @notice Internal function subtracting from the counter, saturating at zero if enabled
+    /// @param value The encrypted value to subtract
+    /// @return The new encrypted counter value
+    function _checkedSub(euint32 value) internal returns (euint32) {
+        euint32 difference = FHE.sub(_counter, value);
+        if (!saturatingMode) {
+            return difference;
+        }
+        
+        ebool underflow = FHE.gt(value, _counter);
+        _recordOpResult(underflow);
+        return FHE.select(underflow, FHE.asEuint32(0), difference);
+    }
+    
+    /// @notice Internal function multiplying the counter, saturating at the maximum if enabled
+    /// @param value The encrypted multiplier
+    /// @return The new encrypted counter value
+    function _checkedMul(euint32 value) internal returns (euint32) {
+        if (!saturatingMode) {
+            return FHE.mul(_counter, value);
+        }
+        
+        // The product of two 32-bit values always fits in 64 bits, so compute it there
+        euint64 product = FHE.mul(FHE.asEuint64(_counter), FHE.asEuint64(value));
+        ebool overflow = FHE.gt(product, uint64(type(uint32).max));
+        _recordOpResult(overflow);
+        return FHE.select(overflow, FHE.asEuint32(type(uint32).max), FHE.asEuint32(product));
+    }
+    
+    /// @notice Internal function storing the outcome flag of a saturating operation
+    /// @param failed Encrypted true if the result had to be clamped
+    function _recordOpResult(ebool failed) internal {
+        _lastOpFailed = failed;
+        FHE.allowThis(_lastOpFailed);
+        FHE.allow(_lastOpFailed, msg.sender);
+    }
+    
+    /// @notice Internal function allowing a fresh counter handle to the contract, the owner,
+    ///         the admins and the current viewers (and nobody else)
+    function _shareCounter() internal {
+        FHE.allowThis(_counter);
+        _allowAdmins(_counter);
+        
+        for (uint256 i = 0; i < _viewers.length; i++) {
+            FHE.allow(_counter, _viewers[i]);
+        }
+    }
+    
+    /// @notice Internal function allowing a fresh 8-bit counter handle like `_shareCounter`
+    function _shareCounter8() internal {
+        FHE.allowThis(_counter8);
+        address[] memory recipients = _counterRecipients();
+        for (uint256 i = 0; i < recipients.length; i++) {
+            FHE.allow(_counter8, recipients[i]);
+        }
+    }
+    
+    /// @notice Internal function allowing a fresh 16-bit counter handle like `_shareCounter`
+    function _shareCounter16() internal {
+        FHE.allowThis(_counter16);
+        address[] memory recipients = _counterRecipients();
+        for (uint256 i = 0; i < recipients.length; i++) {
+            FHE.allow(_counter16, recipients[i]);
+        }
+    }
+    
+    /// @notice Internal function allowing a fresh 64-bit counter handle like `_shareCounter`
+    function _shareCounter64() internal {
+        FHE.allowThis(_counter64);
+        address[] memory recipients = _counterRecipients();
+        for (uint256 i = 0; i < recipients.length; i++) {
+            FHE.allow(_counter64, recipients[i]);
+        }
+    }
+    
+    /// @notice Internal function allowing a fresh 128-bit counter handle like `_shareCounter`
+    function _shareCounter128() internal {
+        FHE.allowThis(_counter128);
+        address[] memory recipients = _counterRecipients();
+        for (uint256 i = 0; i < recipients.length; i++) {
+            FHE.allow(_counter128, recipients[i]);
+        }
+    }
+    
+    /// @notice Internal function listing everyone who may decrypt the counters
+    /// @return recipients The owner, the admins and the current viewers
+    function _counterRecipients() internal view returns (address[] memory recipients) {
+        address[] memory admins = getRoleMembers(ADMIN_ROLE);
+        recipients = new address[](1 + admins.length + _viewers.length);
+        
+        recipients[0] = owner;
+        for (uint256 i = 0; i < admins.length; i++) {
+            recipients[1 + i] = admins[i];
+        }
+        for (uint256 i = 0; i < _viewers.length; i++) {
+            recipients[1 + admins.length + i] = _viewers[i];
+        }
+    }
+    
+    /// @notice Let new owners and admins decrypt the current counters and aggregate
+    /// @param role The role that was granted
+    /// @param account The new role holder
+    function _onRoleGranted(bytes32 role, address account) internal override {
+        if (role == OWNER_ROLE || role == ADMIN_ROLE) {
+            FHE.allow(_counter, account);
+            FHE.allow(_counter8, account);
+            FHE.allow(_counter16, account);
+            FHE.allow(_counter64, account);
+            FHE.allow(_counter128, account);
+            FHE.allow(_aggregate, account);
+        }
+    }
 }
@@ -0,0 +1,344 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint32, euint64, externalEuint32, ebool} from "@fhevm/solidity/lib/FHE.sol";
+import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {RoleAccess} from "./RoleAccess.sol";
+import {ConfidentialToken} from "./ConfidentialToken.sol";
+
+/// @title Multi-Lot Sealed-Bid Auction
+/// @author Zama Community Tutorial
+/// @notice Sells K identical units to the highest encrypted (quantity, unit price) bids at one
+///         uniform clearing price, settled entirely in a confidential token
+/// @dev Companion to SecretAuction, kept in its own contract so both stay under the contract
+///      size limit. Allocation needs every bid compared with every other one, so the number of
+///      bidders per auction is capped by MAX_LOT_BIDDERS. A bid whose escrow fails is voided
+///      under encryption but still takes a slot, so every bid also locks a cleartext ETH bond
+///      (LOT_BID_BOND) until settlement: filling an auction with throwaway accounts ties up
+///      MAX_LOT_BIDDERS bonds for its whole duration instead of costing nothing.
+contract MultiLotAuction is SepoliaConfig, RoleAccess {
+    // Multi-unit auction listing
+    struct LotAuction {
+        string title;
+        address seller;
+        uint32 totalUnits;       // K identical units for sale
+        ConfidentialToken paymentToken;
+        uint256 endTime;
+        euint32 clearingPrice;   // Encrypted uniform unit price, built up during finalization
+        euint64 proceeds;        // Encrypted total owed to the seller, built up during settlement
+        uint32 allocatedBids;    // Finalization progress: bids allocated so far
+        uint32 settledBids;      // Finalization progress: bids settled so far
+        bool exists;
+        bool finalized;
+    }
+    
+    // Encrypted bid for a number of units
+    struct LotBid {
+        euint32 quantity;        // Units wanted (capped at totalUnits, 0 if escrow failed)
+        euint32 unitPrice;       // Price offered per unit, in token base units
+        euint64 escrow;          // Tokens locked for this bid: quantity * unitPrice
+        euint32 allocation;      // Units won, set at finalization
+        bool exists;
+    }
+    
+    // Bidders per auction; finalization costs O(n^2) encrypted comparisons
+    uint256 public constant MAX_LOT_BIDDERS = 8;
+    
+    // Upper bound on units per auction, so summed quantities always fit in a euint32
+    uint32 public constant MAX_UNITS = 1_000_000;
+    
+    // Public deposit per bid, returned to every bidder once the auction is settled
+    uint256 public constant LOT_BID_BOND = 0.01 ether;
+    
+    uint32 public lotAuctionCount;
+    
+    mapping(uint32 => LotAuction) public lotAuctions;
+    mapping(uint32 => mapping(address => LotBid)) private lotBids;
+    mapping(uint32 => address[]) public lotBidders;
+    mapping(address => uint256) public bondRefunds; // Settled bonds, paid out by `withdrawBond`
+    
+    // Events
+    event LotAuctionCreated(
+        uint32 indexed auctionId,
+        address indexed seller,
+        uint32 totalUnits,
+        address paymentToken,
+        uint256 endTime
+    );
+    event LotBidPlaced(uint32 indexed auctionId, address indexed bidder);
+    event LotAuctionFinalized(uint32 indexed auctionId);
+    
+    modifier lotAuctionExists(uint32 auctionId) {
+        require(lotAuctions[auctionId].exists, "Auction does not exist");
+        _;
+    }
+    
+    /// @notice Make the deployer the owner
+    constructor() {
+        _initializeRoleAccess(msg.sender);
+    }
+    
+    /// @notice Create a multi-unit auction paid in a confidential token
+    /// @param title The title of the lot
+    /// @param totalUnits Number of identical units for sale
+    /// @param durationInSeconds How long the auction should run
+    /// @param paymentToken The confidential token bids are escrowed in
+    /// @return auctionId The ID of the new auction
+    function createLotAuction(
+        string calldata title,
+        uint32 totalUnits,
+        uint256 durationInSeconds,
+        ConfidentialToken paymentToken
+    ) external returns (uint32 auctionId) {
+        require(bytes(title).length > 0, "Title cannot be empty");
+        require(totalUnits > 0 && totalUnits <= MAX_UNITS, "Invalid number of units");
+        require(durationInSeconds > 0, "Duration must be positive");
+        require(durationInSeconds <= 7 days, "Duration cannot exceed 7 days");
+        require(address(paymentToken) != address(0), "Invalid payment token");
+        
+        auctionId = lotAuctionCount++;
+        
+        LotAuction storage auction = lotAuctions[auctionId];
+        auction.title = title;
+        auction.seller = msg.sender;
+        auction.totalUnits = totalUnits;
+        auction.paymentToken = paymentToken;
+        auction.endTime = block.timestamp + durationInSeconds;
+        auction.exists = true;
+        
+        emit LotAuctionCreated(auctionId, msg.sender, totalUnits, address(paymentToken), auction.endTime);
+    }
+    
+    /// @notice Bid for a number of units at an encrypted unit price
+    /// @param auctionId The ID of the auction
+    /// @param encryptedQuantity Encrypted number of units wanted
+    /// @param encryptedUnitPrice Encrypted price per unit, in token base units
+    /// @param inputProof Proof covering both encrypted values
+    /// @dev The bidder must first `approve` this contract for at least quantity * unitPrice.
+    ///      If the escrow transfer moves nothing, the bid silently becomes (0, 0). Every bid,
+    ///      funded or not, sends exactly LOT_BID_BOND in ETH.
+    function placeLotBid(
+        uint32 auctionId,
+        externalEuint32 encryptedQuantity,
+        externalEuint32 encryptedUnitPrice,
+        bytes calldata inputProof
+    ) external payable lotAuctionExists(auctionId) {
+        LotAuction storage auction = lotAuctions[auctionId];
+        require(msg.value == LOT_BID_BOND, "Bid bond required");
+        require(block.timestamp <= auction.endTime, "Auction has ended");
+        require(msg.sender != auction.seller, "Seller cannot bid on own auction");
+        require(!lotBids[auctionId][msg.sender].exists, "Already placed a bid");
+        require(lotBidders[auctionId].length < MAX_LOT_BIDDERS, "Too many bidders");
+        
+        // Nobody can win more than every unit
+        euint32 quantity = FHE.min(FHE.fromExternal(encryptedQuantity, inputProof), auction.totalUnits);
+        euint32 unitPrice = FHE.fromExternal(encryptedUnitPrice, inputProof);
+        
+        // Escrow the full bid value; the token reports how much it actually moved
+        euint64 required = FHE.mul(FHE.asEuint64(quantity), FHE.asEuint64(unitPrice));
+        FHE.allowTransient(required, address(auction.paymentToken));
+        euint64 escrow = auction.paymentToken.transferFrom(msg.sender, address(this), required);
+        
+        // The transfer is all-or-nothing, so anything but the full amount voids the bid
+        ebool funded = FHE.eq(escrow, required);
+        quantity = FHE.select(funded, quantity, FHE.asEuint32(0));
+        unitPrice = FHE.select(funded, unitPrice, FHE.asEuint32(0));
+        
+        LotBid storage bid = lotBids[auctionId][msg.sender];
+        bid.quantity = quantity;
+        bid.unitPrice = unitPrice;
+        bid.escrow = escrow;
+        bid.exists = true;
+        lotBidders[auctionId].push(msg.sender);
+        
+        FHE.allowThis(bid.quantity);
+        FHE.allowThis(bid.unitPrice);
+        FHE.allowThis(bid.escrow);
+        FHE.allow(bid.quantity, msg.sender);
+        FHE.allow(bid.unitPrice, msg.sender);
+        
+        emit LotBidPlaced(auctionId, msg.sender);
+    }
+    
+    /// @notice Advance finalization: allocate the units to the best bids, then settle every
+    ///         payment under encryption
+    /// @param auctionId The ID of the auction
+    /// @param maxSteps How many steps to run in this transaction
+    /// @dev Finalization is too heavy for one transaction's HCU budget, so it runs in steps:
+    ///      one step allocates or settles one bidder, and a last step pays the seller. A single
+    ///      step always fits; call again until `LotAuctionFinalized` is emitted.
+    ///      Bids are ranked by unit price, ties going to the earlier bid. Each bidder receives
+    ///      min(quantity, units left after all better bids). Every winner pays the lowest winning
+    ///      unit price; the unspent part of each escrow is returned.
+    function finalizeLotAuction(uint32 auctionId, uint256 maxSteps) external lotAuctionExists(auctionId) {
+        LotAuction storage auction = lotAuctions[auctionId];
+        require(block.timestamp > auction.endTime, "Auction is still active");
+        require(!auction.finalized, "Auction already finalized");
+        require(
+            msg.sender == auction.seller || hasRole(OPERATOR_ROLE, msg.sender),
+            "Only seller or auction house can finalize"
+        );
+        require(maxSteps > 0, "Must run at least one step");
+        
+        if (!FHE.isInitialized(auction.clearingPrice)) {
+            auction.clearingPrice = FHE.asEuint32(type(uint32).max);
+            auction.proceeds = FHE.asEuint64(0);
+            FHE.allowThis(auction.clearingPrice);
+            FHE.allowThis(auction.proceeds);
+        }
+        
+        uint256 bidderCount = lotBidders[auctionId].length;
+        for (uint256 step = 0; step < maxSteps && !auction.finalized; step++) {
+            if (auction.allocatedBids < bidderCount) {
+                _allocate(auctionId, auction.allocatedBids++);
+            } else if (auction.settledBids < bidderCount) {
+                _settle(auctionId, auction.settledBids++);
+            } else {
+                _closeLotAuction(auctionId);
+            }
+        }
+    }
+    
+    
+    /// @notice Get a bidder's encrypted bid
+    /// @param auctionId The ID of the auction
+    /// @param bidder The bidder's address
+    /// @return quantity Encrypted number of units wanted
+    /// @return unitPrice Encrypted price per unit
+    function getLotBid(uint32 auctionId, address bidder)
+        external
+        view
+        lotAuctionExists(auctionId)
+        returns (euint32 quantity, euint32 unitPrice)
+    {
+        LotBid storage bid = lotBids[auctionId][bidder];
+        return (bid.quantity, bid.unitPrice);
+    }
+    
+    /// @notice Get the units a bidder won (only that bidder can decrypt)
+    /// @param auctionId The ID of the auction
+    /// @param bidder The bidder's address
+    /// @return allocation Encrypted number of units won
+    function getAllocation(uint32 auctionId, address bidder)
+        external
+        view
+        lotAuctionExists(auctionId)
+        returns (euint32 allocation)
+    {
+        require(lotAuctions[auctionId].finalized, "Auction not finalized");
+        return lotBids[auctionId][bidder].allocation;
+    }
+    
+    /// @notice Get the uniform clearing price (the seller and every bidder can decrypt)
+    /// @param auctionId The ID of the auction
+    /// @return clearingPrice Encrypted price per unit paid by every winner
+    function getClearingPrice(uint32 auctionId)
+        external
+        view
+        lotAuctionExists(auctionId)
+        returns (euint32 clearingPrice)
+    {
+        require(lotAuctions[auctionId].finalized, "Auction not finalized");
+        return lotAuctions[auctionId].clearingPrice;
+    }
+    
+    /// @notice Withdraw the bonds of the caller's settled bids
+    function withdrawBond() external {
+        uint256 amount = bondRefunds[msg.sender];
+        require(amount > 0, "No bond to withdraw");
+        
+        bondRefunds[msg.sender] = 0;
+        (bool success, ) = payable(msg.sender).call{value: amount}("");
+        require(success, "Withdrawal failed");
+    }
+    
+    /// @notice Internal function computing one bidder's allocation and folding it into the clearing price
+    /// @param auctionId The ID of the auction
+    /// @param index The bidder's position in the bid order
+    function _allocate(uint32 auctionId, uint256 index) internal {
+        LotAuction storage auction = lotAuctions[auctionId];
+        address[] storage bidderList = lotBidders[auctionId];
+        LotBid storage bid = lotBids[auctionId][bidderList[index]];
+        
+        // Units claimed by bids ranked ahead of this one
+        euint32 demandAhead = FHE.asEuint32(0);
+        for (uint256 j = 0; j < bidderList.length; j++) {
+            if (j == index) {
+                continue;
+            }
+            LotBid storage other = lotBids[auctionId][bidderList[j]];
+            ebool ranksAhead = j < index
+                ? FHE.ge(other.unitPrice, bid.unitPrice)
+                : FHE.gt(other.unitPrice, bid.unitPrice);
+            demandAhead = FHE.add(demandAhead, FHE.select(ranksAhead, other.quantity, FHE.asEuint32(0)));
+        }
+        
+        euint32 unitsLeft = FHE.select(
+            FHE.ge(demandAhead, auction.totalUnits),
+            FHE.asEuint32(0),
+            FHE.sub(auction.totalUnits, demandAhead)
+        );
+        bid.allocation = FHE.min(bid.quantity, unitsLeft);
+        FHE.allowThis(bid.allocation);
+        
+        // The clearing price is the lowest unit price that still wins something
+        auction.clearingPrice = FHE.select(
+            FHE.gt(bid.allocation, 0),
+            FHE.min(auction.clearingPrice, bid.unitPrice),
+            auction.clearingPrice
+        );
+        FHE.allowThis(auction.clearingPrice);
+    }
+    
+    /// @notice Internal function charging one bidder the clearing price and releasing the rest of their escrow and bond
+    /// @param auctionId The ID of the auction
+    /// @param index The bidder's position in the bid order
+    function _settle(uint32 auctionId, uint256 index) internal {
+        LotAuction storage auction = lotAuctions[auctionId];
+        address bidder = lotBidders[auctionId][index];
+        LotBid storage bid = lotBids[auctionId][bidder];
+        
+        // allocation <= quantity and clearingPrice <= unitPrice for winners, so cost <= escrow
+        euint64 cost = FHE.mul(FHE.asEuint64(bid.allocation), FHE.asEuint64(auction.clearingPrice));
+        auction.proceeds = FHE.add(auction.proceeds, cost);
+        FHE.allowThis(auction.proceeds);
+        
+        _payTokens(auction.paymentToken, bidder, FHE.sub(bid.escrow, cost));
+        FHE.allow(bid.allocation, bidder);
+        bondRefunds[bidder] += LOT_BID_BOND;
+    }
+    
+    /// @notice Internal function paying the seller and publishing the clearing price to the participants
+    /// @param auctionId The ID of the auction
+    function _closeLotAuction(uint32 auctionId) internal {
+        LotAuction storage auction = lotAuctions[auctionId];
+        auction.finalized = true;
+        
+        // No winners at all: nothing is sold and the price is reported as 0
+        auction.clearingPrice = FHE.select(
+            FHE.eq(auction.clearingPrice, type(uint32).max),
+            FHE.asEuint32(0),
+            auction.clearingPrice
+        );
+        FHE.allowThis(auction.clearingPrice);
+        FHE.allow(auction.clearingPrice, auction.seller);
+        
+        address[] storage bidderList = lotBidders[auctionId];
+        for (uint256 i = 0; i < bidderList.length; i++) {
+            FHE.allow(auction.clearingPrice, bidderList[i]);
+        }
+        
+        _payTokens(auction.paymentToken, auction.seller, auction.proceeds);
+        
+        emit LotAuctionFinalized(auctionId);
+    }
+    
+    /// @notice Internal function sending an encrypted amount of the payment token out of escrow
+    /// @param token The payment token
+    /// @param to The recipient
+    /// @param amount The encrypted amount to send
+    function _payTokens(ConfidentialToken token, address to, euint64 amount) internal {
+        FHE.allowTransient(amount, address(token));
+        token.transfer(to, amount);
+    }
+}
@@ -1,14 +1,24 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import {FHE, euint32, externalEuint32, ebool, externalEbool} from "@fhevm/solidity/lib/FHE.sol";
-import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {FHE, euint8, euint32, externalEuint8, externalEuint32, ebool, externalEbool} from "@fhevm/solidity/lib/FHE.sol";
+import {SepoliaConfig, ZamaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {RoleAccess} from "./RoleAccess.sol";
 
 /// @title Private Voting System
 /// @author Zama Community Tutorial
 /// @notice A confidential voting system where individual votes remain private until tallied
 /// @dev Demonstrates encrypted voting, access control, and time-based operations in FHEVM
-contract PrivateVoting is SepoliaConfig {
+contract PrivateVoting is SepoliaConfig, RoleAccess {
+    // Proposal lifecycle, derived from the schedule and the reveal/cancel flags
+    enum ProposalState {
+        Pending,   // Created, voting has not started yet
+        Active,    // Accepting ballots
+        Closed,    // Voting ended, results not revealed yet
+        Revealed,  // Results (or outcome) decrypted and published
+        Cancelled  // Cancelled by the admin before voting ended
+    }
+    
     // Voting proposal structure
     struct Proposal {
         string description;
@@ -18,6 +28,20 @@ contract PrivateVoting is SepoliaConfig {
         uint256 endTime;
         bool exists;
         bool resultsRevealed;
+        bool revealPending;     // Decryption requested, waiting for the oracle callback
+        uint32 revealedYesVotes; // Cleartext tallies, only set once the callback succeeds
+        uint32 revealedNoVotes;
+        string[] optionLabels;  // Empty for yes/no proposals, otherwise one label per option
+        euint32[] optionVotes;  // Encrypted tally per option (multi-option proposals only)
+        uint32[] revealedOptionVotes;
+        bool weighted;          // Ballots count with the voter's encrypted weight instead of one
+        bool hasPassingRules;   // Only the encrypted outcome is revealed, never the raw tallies
+        uint32 quorum;          // Minimum turnout (yes + no, in ballot weight units)
+        uint8 passingPercent;   // Minimum share of yes votes, in percent of turnout
+        bool quorumReached;     // Revealed outcome, only set once the callback succeeds
+        bool passed;
+        bool allowRevote;       // Voters may replace their ballot while voting is open
+        bool cancelled;
     }
     
     // Encrypted vote structure
@@ -27,22 +51,78 @@ contract PrivateVoting is SepoliaConfig {
         bool hasVoted;
     }
     
+    // Last ballot a voter cast on a proposal, kept so it can be withdrawn homomorphically
+    struct Ballot {
+        ebool[] choices; // Encrypted selection per tally slot: (yes, no) or one per option
+        euint32 weight;  // Encrypted weight the ballot was counted with
+    }
+    
+    // Weight a delegate's ballot carried on behalf of a delegator
+    struct DelegatedWeight {
+        address delegate; // Delegate whose ballot counted the weight, address(0) if none
+        euint32 weight;   // Encrypted weight that was added to that ballot
+    }
+    
+    // Upper bound on options so a single ballot stays within a reasonable FHE gas budget
+    uint8 public constant MAX_OPTIONS = 10;
+    // Upper bound on delegators per delegate (globally, and again per proposal), for the same reason
+    uint8 public constant MAX_DELEGATORS = 10;
+    
     // State variables
-    address public admin;
     uint32 public proposalCount;
     mapping(uint32 => Proposal) public proposals;
     mapping(address => mapping(uint32 => bool)) public hasVoted;
     mapping(address => bool) public authorizedVoters;
     
+    // Weighted voting: new proposals inherit this mode, each voter's weight stays encrypted
+    bool public weightedVotingEnabled;
+    mapping(address => euint32) private voterWeights;
+    address[] private weightedVoters;
+    
+    // Re-voting: new proposals inherit this mode
+    bool public revotingEnabled;
+    mapping(address => mapping(uint32 => Ballot)) private ballots;
+    
+    // Delegation: a proposal-specific delegate takes precedence over the global one
+    mapping(address => address) private globalDelegates;
+    mapping(address => mapping(uint32 => address)) private proposalDelegates;
+    mapping(address => address[]) private delegatorsOf;
+    mapping(address => mapping(address => bool)) private isDelegatorOf;
+    mapping(address => mapping(uint32 => DelegatedWeight)) private delegatedWeights;
+    
+    // Pending decryption requests: requestId => proposalId
+    mapping(uint256 => uint32) private revealRequests;
+    
+    // Proposal-specific delegators live in their own list, so they stop counting against a
+    // delegate's limit once the proposal is over
+    mapping(address => mapping(uint32 => address[])) private proposalDelegatorsOf;
+    // Proposals on which a delegator's weight was counted, pruned whenever they re-delegate
+    mapping(address => uint32[]) private countedProposals;
+    
     // Events
     event ProposalCreated(uint32 indexed proposalId, string description, uint256 startTime, uint256 endTime);
+    event ProposalCancelled(uint32 indexed proposalId);
     event VoteCast(address indexed voter, uint32 indexed proposalId);
+    event VoteChanged(address indexed voter, uint32 indexed proposalId);
+    event ResultsRevealRequested(uint32 indexed proposalId, uint256 requestId);
     event ResultsRevealed(uint32 indexed proposalId, uint32 yesVotes, uint32 noVotes);
+    event OptionResultsRevealed(uint32 indexed proposalId, uint32[] optionVotes);
+    event OutcomeRevealed(uint32 indexed proposalId, bool quorumReached, bool passed);
     event VoterAuthorized(address indexed voter);
     event VoterRevoked(address indexed voter);
+    event VoterWeightSet(address indexed voter);
+    event WeightedVotingToggled(bool enabled);
+    event RevotingToggled(bool enabled);
+    event DelegateChanged(address indexed delegator, address indexed delegate);
+    event ProposalDelegateChanged(address indexed delegator, uint32 indexed proposalId, address indexed delegate);
     
     modifier onlyAdmin() {
-        require(msg.sender == admin, "Only admin can perform this action");
+        require(hasRole(ADMIN_ROLE, msg.sender), "Only admin can perform this action");
+        _;
+    }
+    
+    modifier onlyOperator() {
+        require(hasRole(OPERATOR_ROLE, msg.sender), "Only operator can perform this action");
         _;
     }
     
@@ -56,63 +136,144 @@ contract PrivateVoting is SepoliaConfig {
         _;
     }
     
+    modifier onlyBinary(uint32 proposalId) {
+        require(proposals[proposalId].optionLabels.length == 0, "Proposal has multiple options");
+        _;
+    }
+    
+    modifier onlyMultiOption(uint32 proposalId) {
+        require(proposals[proposalId].optionLabels.length > 0, "Proposal is a yes/no vote");
+        _;
+    }
+    
     modifier votingOpen(uint32 proposalId) {
+        require(!proposals[proposalId].cancelled, "Proposal is cancelled");
         require(block.timestamp >= proposals[proposalId].startTime, "Voting has not started");
         require(block.timestamp <= proposals[proposalId].endTime, "Voting has ended");
         _;
     }
     
     modifier votingClosed(uint32 proposalId) {
+        require(!proposals[proposalId].cancelled, "Proposal is cancelled");
         require(block.timestamp > proposals[proposalId].endTime, "Voting is still open");
         _;
     }
     
     modifier hasNotVoted(uint32 proposalId) {
-        require(!hasVoted[msg.sender][proposalId], "Already voted on this proposal");
+        // Proposals with re-voting accept a replacement ballot instead
+        require(
+            !hasVoted[msg.sender][proposalId] || proposals[proposalId].allowRevote,
+            "Already voted on this proposal"
+        );
         _;
     }
     
-    /// @notice Initialize the voting contract
+    /// @notice Initialize a direct deployment (and lock the implementation of a proxy deployment)
     constructor() {
-        admin = msg.sender;
-        // Admin is automatically authorized to vote
-        authorizedVoters[admin] = true;
+        initialize();
+    }
+    
+    /// @notice Initialize the voting contract and make the caller owner
+    /// @dev Called by the proxy on deployment; the coprocessor address is stored per contract,
+    ///      so the proxy needs its own `setCoprocessor` call
+    function initialize() public {
+        _initializeRoleAccess(msg.sender);
+        FHE.setCoprocessor(ZamaConfig.getSepoliaConfig());
+        
+        // Owner is automatically authorized to vote
+        authorizedVoters[msg.sender] = true;
+    }
+    
+    /// @notice The voting administrator (the contract owner)
+    /// @return The current owner address
+    function admin() external view returns (address) {
+        return owner;
     }
     
-    /// @notice Create a new voting proposal
+    /// @notice Create a new yes/no voting proposal
     /// @param description The description of the proposal
     /// @param durationInSeconds How long the voting should remain open
     function createProposal(
         string calldata description,
         uint256 durationInSeconds
     ) external onlyAdmin returns (uint32) {
-        require(durationInSeconds > 0, "Duration must be positive");
-        require(bytes(description).length > 0, "Description cannot be empty");
-        
-        uint32 proposalId = proposalCount++;
-        uint256 startTime = block.timestamp;
-        uint256 endTime = startTime + durationInSeconds;
-        
-        proposals[proposalId] = Proposal({
-            description: description,
-            yesVotes: FHE.asEuint32(0),
-            noVotes: FHE.asEuint32(0),
-            startTime: startTime,
-            endTime: endTime,
-            exists: true,
-            resultsRevealed: false
-        });
-        
-        // Grant permissions for encrypted vote counting
-        FHE.allowThis(proposals[proposalId].yesVotes);
-        FHE.allowThis(proposals[proposalId].noVotes);
-        FHE.allow(proposals[proposalId].yesVotes, admin);
-        FHE.allow(proposals[proposalId].noVotes, admin);
-        
-        emit ProposalCreated(proposalId, description, startTime, endTime);
+        uint32 proposalId = _createProposal(description, block.timestamp, durationInSeconds);
+        _initBinaryTallies(proposalId);
         return proposalId;
     }
     
+    /// @notice Create a yes/no proposal decided by quorum and passing-threshold rules
+    /// @param description The description of the proposal
+    /// @param durationInSeconds How long the voting should remain open
+    /// @param quorum Minimum turnout (yes + no votes) for the result to count
+    /// @param passingPercent Minimum percentage of yes votes among all votes cast (1-100)
+    /// @dev Revealing such a proposal only decrypts the `quorumReached` and `passed` flags, and the
+    ///      raw tallies are only allowed to this contract, so not even admins can decrypt them
+    function createProposal(
+        string calldata description,
+        uint256 durationInSeconds,
+        uint32 quorum,
+        uint8 passingPercent
+    ) external onlyAdmin returns (uint32) {
+        return _createRuledProposal(description, block.timestamp, durationInSeconds, quorum, passingPercent);
+    }
+    
+    /// @notice Create a yes/no proposal whose voting opens at a future time
+    /// @param description The description of the proposal
+    /// @param startTime When voting opens (unix timestamp, not in the past)
+    /// @param durationInSeconds How long the voting should remain open once started
+    function createScheduledProposal(
+        string calldata description,
+        uint256 startTime,
+        uint256 durationInSeconds
+    ) external onlyAdmin returns (uint32) {
+        uint32 proposalId = _createProposal(description, startTime, durationInSeconds);
+        _initBinaryTallies(proposalId);
+        return proposalId;
+    }
+    
+    /// @notice Create a quorum and passing-threshold proposal whose voting opens at a future time
+    /// @param description The description of the proposal
+    /// @param startTime When voting opens (unix timestamp, not in the past)
+    /// @param durationInSeconds How long the voting should remain open once started
+    /// @param quorum Minimum turnout (yes + no votes) for the result to count
+    /// @param passingPercent Minimum percentage of yes votes among all votes cast (1-100)
+    function createScheduledProposal(
+        string calldata description,
+        uint256 startTime,
+        uint256 durationInSeconds,
+        uint32 quorum,
+        uint8 passingPercent
+    ) external onlyAdmin returns (uint32) {
+        return _createRuledProposal(description, startTime, durationInSeconds, quorum, passingPercent);
+    }
+    
+    /// @notice Create a plurality proposal whose voting opens at a future time
+    /// @param description The description of the proposal
+    /// @param startTime When voting opens (unix timestamp, not in the past)
+    /// @param durationInSeconds How long the voting should remain open once started
+    /// @param optionLabels One label per option; voters submit the encrypted index of their choice
+    function createScheduledProposal(
+        string calldata description,
+        uint256 startTime,
+        uint256 durationInSeconds,
+        string[] calldata optionLabels
+    ) external onlyAdmin returns (uint32) {
+        return _createOptionProposal(description, startTime, durationInSeconds, optionLabels);
+    }
+    
+    /// @notice Create a plurality proposal with several options
+    /// @param description The description of the proposal
+    /// @param durationInSeconds How long the voting should remain open
+    /// @param optionLabels One label per option; voters submit the encrypted index of their choice
+    function createProposal(
+        string calldata description,
+        uint256 durationInSeconds,
+        string[] calldata optionLabels
+    ) external onlyAdmin returns (uint32) {
+        return _createOptionProposal(description, block.timestamp, durationInSeconds, optionLabels);
+    }
+    
     /// @notice Cast an encrypted vote on a proposal
     /// @param proposalId The ID of the proposal to vote on
     /// @param encryptedVote The encrypted vote (true for yes, false for no)
@@ -125,39 +286,48 @@ contract PrivateVoting is SepoliaConfig {
         onlyAuthorizedVoter
         proposalExists(proposalId)
         votingOpen(proposalId)
+        onlyBinary(proposalId)
         hasNotVoted(proposalId)
     {
         // Convert external encrypted vote to internal format
         ebool vote = FHE.fromExternal(encryptedVote, voteProof);
         
-        // Create encrypted one for vote counting
-        euint32 one = FHE.asEuint32(1);
+        // If vote is true (yes), the ballot counts towards yesVotes, otherwise towards noVotes
+        ebool[] memory choices = new ebool[](2);
+        choices[0] = vote;
+        choices[1] = FHE.not(vote);
         
-        // Add encrypted vote to appropriate counter
-        // If vote is true (yes), add to yesVotes, otherwise add to noVotes
-        proposals[proposalId].yesVotes = FHE.add(
-            proposals[proposalId].yesVotes,
-            FHE.select(vote, one, FHE.asEuint32(0))
-        );
-        
-        proposals[proposalId].noVotes = FHE.add(
-            proposals[proposalId].noVotes,
-            FHE.select(vote, FHE.asEuint32(0), one)
-        );
-        
-        // Update permissions
-        FHE.allowThis(proposals[proposalId].yesVotes);
-        FHE.allowThis(proposals[proposalId].noVotes);
-        FHE.allow(proposals[proposalId].yesVotes, admin);
-        FHE.allow(proposals[proposalId].noVotes, admin);
+        _castBallot(proposalId, choices);
+    }
+    
+    /// @notice Cast an encrypted vote on a multi-option proposal
+    /// @param proposalId The ID of the proposal to vote on
+    /// @param encryptedOption The encrypted index of the chosen option
+    /// @param voteProof Cryptographic proof for the encrypted option index
+    /// @dev Every tally is updated so the chosen option stays hidden; an out-of-range
+    ///      index is an (equally hidden) blank ballot that counts towards no option
+    function castOptionVote(
+        uint32 proposalId,
+        externalEuint8 encryptedOption,
+        bytes calldata voteProof
+    ) external 
+        onlyAuthorizedVoter
+        proposalExists(proposalId)
+        onlyMultiOption(proposalId)
+        votingOpen(proposalId)
+        hasNotVoted(proposalId)
+    {
+        euint8 option = FHE.fromExternal(encryptedOption, voteProof);
         
-        // Mark voter as having voted
-        hasVoted[msg.sender][proposalId] = true;
+        ebool[] memory choices = new ebool[](proposals[proposalId].optionVotes.length);
+        for (uint256 i = 0; i < choices.length; i++) {
+            choices[i] = FHE.eq(option, uint8(i));
+        }
         
-        emit VoteCast(msg.sender, proposalId);
+        _castBallot(proposalId, choices);
     }
     
-    /// @notice Get encrypted vote counts (only admin can decrypt)
+    /// @notice Get encrypted vote counts (only admins can decrypt, and nobody on proposals with passing rules)
     /// @param proposalId The ID of the proposal
     /// @return yesVotes Encrypted count of yes votes
     /// @return noVotes Encrypted count of no votes
@@ -170,25 +340,165 @@ contract PrivateVoting is SepoliaConfig {
         return (proposals[proposalId].yesVotes, proposals[proposalId].noVotes);
     }
     
-    /// @notice Reveal voting results (only admin, only after voting ends)
+    /// @notice Get encrypted per-option vote counts of a multi-option proposal (only admins can decrypt)
+    /// @param proposalId The ID of the proposal
+    /// @return optionVotes Encrypted tally for each option, in label order
+    function getOptionVoteCounts(uint32 proposalId) 
+        external 
+        view 
+        proposalExists(proposalId)
+        onlyMultiOption(proposalId)
+        returns (euint32[] memory optionVotes) 
+    {
+        return proposals[proposalId].optionVotes;
+    }
+    
+    /// @notice Get the option labels of a proposal
+    /// @param proposalId The ID of the proposal
+    /// @return optionLabels The labels, empty for yes/no proposals
+    function getProposalOptions(uint32 proposalId) 
+        external 
+        view 
+        proposalExists(proposalId)
+        returns (string[] memory optionLabels) 
+    {
+        return proposals[proposalId].optionLabels;
+    }
+    
+    /// @notice Request public decryption of the voting results (only admin, only after voting ends)
     /// @param proposalId The ID of the proposal
-    /// @dev This function would typically decrypt the results using FHEVM client
+    /// @dev The tallies are revealed asynchronously: the decryption oracle calls
+    ///      `resultsDecryptionCallback` once the KMS has decrypted every counter
     function markResultsRevealed(uint32 proposalId) 
         external 
         onlyAdmin
         proposalExists(proposalId)
         votingClosed(proposalId)
     {
-        proposals[proposalId].resultsRevealed = true;
+        Proposal storage proposal = proposals[proposalId];
+        require(!proposal.resultsRevealed, "Results already revealed");
+        require(!proposal.revealPending, "Reveal already requested");
+        
+        // Request decryption of every tally in a single oracle round-trip
+        bytes32[] memory cts;
+        if (proposal.hasPassingRules) {
+            // Evaluate the rules under encryption and only reveal the two resulting flags
+            (ebool quorumReached, ebool passed) = _evaluateOutcome(proposal);
+            cts = new bytes32[](2);
+            cts[0] = FHE.toBytes32(quorumReached);
+            cts[1] = FHE.toBytes32(passed);
+        } else if (proposal.optionVotes.length == 0) {
+            cts = new bytes32[](2);
+            cts[0] = FHE.toBytes32(proposal.yesVotes);
+            cts[1] = FHE.toBytes32(proposal.noVotes);
+        } else {
+            cts = new bytes32[](proposal.optionVotes.length);
+            for (uint256 i = 0; i < cts.length; i++) {
+                cts[i] = FHE.toBytes32(proposal.optionVotes[i]);
+            }
+        }
+        uint256 requestId = FHE.requestDecryption(cts, this.resultsDecryptionCallback.selector);
         
-        // In a real implementation, you would decrypt the votes here
-        // For demonstration, we emit an event with placeholder values
-        emit ResultsRevealed(proposalId, 0, 0); // Actual values would be decrypted
+        proposal.revealPending = true;
+        revealRequests[requestId] = proposalId;
+        
+        emit ResultsRevealRequested(proposalId, requestId);
+    }
+    
+    /// @notice Decryption oracle callback that publishes the cleartext tallies
+    /// @param requestId The ID returned by `FHE.requestDecryption`
+    /// @param cleartexts ABI-encoded decrypted values: (quorumReached, passed) for proposals with
+    ///        passing rules, (yesVotes, noVotes), or one value per option
+    /// @param decryptionProof KMS signatures proving the decryption is authentic
+    /// @dev Reverts unless the KMS signatures match the handles stored for `requestId`
+    function resultsDecryptionCallback(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory decryptionProof
+    ) external {
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+        
+        uint32 proposalId = revealRequests[requestId];
+        Proposal storage proposal = proposals[proposalId];
+        require(proposal.revealPending, "No reveal pending");
+        
+        proposal.revealPending = false;
+        proposal.resultsRevealed = true;
+        delete revealRequests[requestId];
+        
+        if (proposal.hasPassingRules) {
+            (bool quorumReached, bool passed) = abi.decode(cleartexts, (bool, bool));
+            proposal.quorumReached = quorumReached;
+            proposal.passed = passed;
+            emit OutcomeRevealed(proposalId, quorumReached, passed);
+        } else if (proposal.optionVotes.length == 0) {
+            (uint32 yesVotes, uint32 noVotes) = abi.decode(cleartexts, (uint32, uint32));
+            proposal.revealedYesVotes = yesVotes;
+            proposal.revealedNoVotes = noVotes;
+            emit ResultsRevealed(proposalId, yesVotes, noVotes);
+        } else {
+            // Cleartexts are n consecutive 32-byte words, one per requested handle
+            uint32[] memory optionVotes = new uint32[](proposal.optionVotes.length);
+            for (uint256 i = 0; i < optionVotes.length; i++) {
+                uint256 word;
+                assembly ("memory-safe") {
+                    word := mload(add(cleartexts, mul(add(i, 1), 32)))
+                }
+                optionVotes[i] = uint32(word);
+            }
+            proposal.revealedOptionVotes = optionVotes;
+            emit OptionResultsRevealed(proposalId, optionVotes);
+        }
+    }
+    
+    /// @notice Get the decrypted voting results
+    /// @param proposalId The ID of the proposal
+    /// @return yesVotes Cleartext count of yes votes
+    /// @return noVotes Cleartext count of no votes
+    function getRevealedResults(uint32 proposalId) 
+        external 
+        view 
+        proposalExists(proposalId)
+        onlyBinary(proposalId)
+        returns (uint32 yesVotes, uint32 noVotes) 
+    {
+        require(!proposals[proposalId].hasPassingRules, "Tallies are never revealed for this proposal");
+        require(proposals[proposalId].resultsRevealed, "Results not revealed yet");
+        return (proposals[proposalId].revealedYesVotes, proposals[proposalId].revealedNoVotes);
+    }
+    
+    /// @notice Get the decrypted outcome of a proposal with quorum and passing rules
+    /// @param proposalId The ID of the proposal
+    /// @return quorumReached True if turnout reached the quorum
+    /// @return passed True if the quorum was reached and the yes share met the passing percentage
+    function getOutcome(uint32 proposalId) 
+        external 
+        view 
+        proposalExists(proposalId)
+        returns (bool quorumReached, bool passed) 
+    {
+        require(proposals[proposalId].hasPassingRules, "Proposal has no passing rules");
+        require(proposals[proposalId].resultsRevealed, "Results not revealed yet");
+        return (proposals[proposalId].quorumReached, proposals[proposalId].passed);
+    }
+    
+    /// @notice Get the decrypted per-option results of a multi-option proposal
+    /// @param proposalId The ID of the proposal
+    /// @return optionVotes Cleartext tally for each option, in label order
+    function getRevealedOptionResults(uint32 proposalId) 
+        external 
+        view 
+        proposalExists(proposalId)
+        onlyMultiOption(proposalId)
+        returns (uint32[] memory optionVotes) 
+    {
+        require(proposals[proposalId].resultsRevealed, "Results not revealed yet");
+        return proposals[proposalId].revealedOptionVotes;
     }
     
     /// @notice Authorize a voter
     /// @param voter The address to authorize
-    function authorizeVoter(address voter) external onlyAdmin {
+    function authorizeVoter(address voter) external onlyOperator {
         require(voter != address(0), "Invalid voter address");
         authorizedVoters[voter] = true;
         emit VoterAuthorized(voter);
@@ -196,15 +506,15 @@ contract PrivateVoting is SepoliaConfig {
     
     /// @notice Revoke voter authorization
     /// @param voter The address to revoke
-    function revokeVoter(address voter) external onlyAdmin {
-        require(voter != admin, "Cannot revoke admin");
+    function revokeVoter(address voter) external onlyOperator {
+        require(voter != owner, "Cannot revoke owner");
         authorizedVoters[voter] = false;
         emit VoterRevoked(voter);
     }
     
     /// @notice Batch authorize multiple voters
     /// @param voters Array of addresses to authorize
-    function batchAuthorizeVoters(address[] calldata voters) external onlyAdmin {
+    function batchAuthorizeVoters(address[] calldata voters) external onlyOperator {
         for (uint256 i = 0; i < voters.length; i++) {
             require(voters[i] != address(0), "Invalid voter address");
             authorizedVoters[voters[i]] = true;
@@ -212,6 +522,152 @@ contract PrivateVoting is SepoliaConfig {
         }
     }
     
+    /// @notice Set a voter's encrypted voting weight
+    /// @param voter The voter whose weight is set
+    /// @param encryptedWeight The encrypted weight (e.g. a token balance snapshot)
+    /// @param weightProof Cryptographic proof for the encrypted weight
+    /// @dev The weight is read when the ballot is cast; voters without a weight count as one
+    function setVoterWeight(
+        address voter,
+        externalEuint32 encryptedWeight,
+        bytes calldata weightProof
+    ) external onlyAdmin {
+        require(voter != address(0), "Invalid voter address");
+        
+        if (!FHE.isInitialized(voterWeights[voter])) {
+            weightedVoters.push(voter);
+        }
+        voterWeights[voter] = FHE.fromExternal(encryptedWeight, weightProof);
+        
+        // The voter may decrypt their own weight, nobody else but the admins
+        FHE.allowThis(voterWeights[voter]);
+        FHE.allow(voterWeights[voter], voter);
+        _allowAdmins(voterWeights[voter]);
+        
+        emit VoterWeightSet(voter);
+    }
+    
+    /// @notice Enable or disable weighted voting for proposals created from now on
+    /// @param enabled True to count ballots with the voter's weight
+    function setWeightedVoting(bool enabled) external onlyAdmin {
+        weightedVotingEnabled = enabled;
+        emit WeightedVotingToggled(enabled);
+    }
+    
+    /// @notice Enable or disable re-voting for proposals created from now on
+    /// @param enabled True to let voters replace their ballot while voting is open
+    function setRevoting(bool enabled) external onlyAdmin {
+        revotingEnabled = enabled;
+        emit RevotingToggled(enabled);
+    }
+    
+    /// @notice Let an owner or admin decrypt the tallies of existing proposals (only owner)
+    /// @param account The owner or admin to share the tallies with
+    /// @param fromId The first proposal to share
+    /// @param toId The proposal to stop before
+    /// @dev Tallies created later are shared with every admin as they change; this covers the
+    ///      proposals that predate the grant, in ranges small enough to fit in a block
+    function shareExistingHandles(address account, uint32 fromId, uint32 toId) external onlyOwner {
+        require(hasRole(ADMIN_ROLE, account), "Account is not an admin");
+        require(fromId <= toId && toId <= proposalCount, "Invalid range");
+        
+        for (uint32 id = fromId; id < toId; id++) {
+            Proposal storage proposal = proposals[id];
+            if (proposal.optionVotes.length > 0) {
+                for (uint256 i = 0; i < proposal.optionVotes.length; i++) {
+                    FHE.allow(proposal.optionVotes[i], account);
+                }
+            } else if (!proposal.hasPassingRules) {
+                FHE.allow(proposal.yesVotes, account);
+                FHE.allow(proposal.noVotes, account);
+            }
+        }
+    }
+    
+    /// @notice Let an owner or admin decrypt existing voter weights (only owner)
+    /// @param account The owner or admin to share the weights with
+    /// @param fromIndex The first weighted voter to share, in the order weights were first set
+    /// @param toIndex The weighted voter to stop before
+    function shareVoterWeights(address account, uint256 fromIndex, uint256 toIndex) external onlyOwner {
+        require(hasRole(ADMIN_ROLE, account), "Account is not an admin");
+        require(fromIndex <= toIndex && toIndex <= weightedVoters.length, "Invalid range");
+        
+        for (uint256 i = fromIndex; i < toIndex; i++) {
+            FHE.allow(voterWeights[weightedVoters[i]], account);
+        }
+    }
+    
+    /// @notice Delegate voting power on every proposal to another voter
+    /// @param delegatee The voter who will vote on your behalf, or address(0) to stop delegating
+    /// @dev Delegation is single-level: a delegate only carries the weight of voters who delegated
+    ///      to them directly, collected when the delegate casts (or re-casts) their ballot.
+    ///      Voting yourself always overrides the delegation for that proposal. Changing the
+    ///      delegate withdraws the weight the previous one already cast on open proposals.
+    function delegate(address delegatee) external onlyAuthorizedVoter {
+        address previous = globalDelegates[msg.sender];
+        if (previous != delegatee) {
+            _registerDelegation(delegatorsOf[previous], previous, delegatorsOf[delegatee], delegatee);
+            isDelegatorOf[previous][msg.sender] = false;
+            isDelegatorOf[delegatee][msg.sender] = delegatee != address(0);
+            globalDelegates[msg.sender] = delegatee;
+            
+            // Keep only the proposals where the weight is still counted and could still move
+            uint32[] storage counted = countedProposals[msg.sender];
+            uint256 kept = 0;
+            for (uint256 i = 0; i < counted.length; i++) {
+                if (_withdrawMovedWeight(counted[i])) {
+                    counted[kept++] = counted[i];
+                }
+            }
+            while (counted.length > kept) {
+                counted.pop();
+            }
+        }
+        emit DelegateChanged(msg.sender, delegatee);
+    }
+    
+    /// @notice Delegate voting power on a single proposal to another voter
+    /// @param proposalId The ID of the proposal
+    /// @param delegatee The voter who will vote on your behalf, or address(0) to fall back to
+    ///        your global delegate
+    function delegateForProposal(uint32 proposalId, address delegatee) 
+        external 
+        onlyAuthorizedVoter
+        proposalExists(proposalId)
+    {
+        require(block.timestamp <= proposals[proposalId].endTime, "Voting has ended");
+        address previous = proposalDelegates[msg.sender][proposalId];
+        if (previous != delegatee) {
+            _registerDelegation(
+                proposalDelegatorsOf[previous][proposalId],
+                previous,
+                proposalDelegatorsOf[delegatee][proposalId],
+                delegatee
+            );
+            proposalDelegates[msg.sender][proposalId] = delegatee;
+            _withdrawMovedWeight(proposalId);
+        }
+        emit ProposalDelegateChanged(msg.sender, proposalId, delegatee);
+    }
+    
+    /// @notice Get the delegate that votes on a voter's behalf for a proposal
+    /// @param voter The delegating voter
+    /// @param proposalId The ID of the proposal
+    /// @return delegatee The proposal-specific delegate, else the global delegate, else address(0)
+    function getDelegate(address voter, uint32 proposalId) public view returns (address delegatee) {
+        delegatee = proposalDelegates[voter][proposalId];
+        if (delegatee == address(0)) {
+            delegatee = globalDelegates[voter];
+        }
+    }
+    
+    /// @notice Get a voter's encrypted weight (only the voter and admins can decrypt)
+    /// @param voter The voter to look up
+    /// @return weight The encrypted weight, or an uninitialized handle if none was set
+    function getVoterWeight(address voter) external view returns (euint32 weight) {
+        return voterWeights[voter];
+    }
+    
     /// @notice Check if voting is currently open for a proposal
     /// @param proposalId The ID of the proposal
     /// @return isOpen True if voting is currently open
@@ -222,7 +678,47 @@ contract PrivateVoting is SepoliaConfig {
         returns (bool isOpen) 
     {
         return block.timestamp >= proposals[proposalId].startTime && 
-               block.timestamp <= proposals[proposalId].endTime;
+               block.timestamp <= proposals[proposalId].endTime &&
+               !proposals[proposalId].cancelled;
+    }
+    
+    /// @notice Get the lifecycle state of a proposal
+    /// @param proposalId The ID of the proposal
+    /// @return state Pending, Active, Closed, Revealed or Cancelled
+    function getProposalState(uint32 proposalId) 
+        public 
+        view 
+        proposalExists(proposalId)
+        returns (ProposalState state) 
+    {
+        Proposal storage proposal = proposals[proposalId];
+        if (proposal.cancelled) {
+            return ProposalState.Cancelled;
+        }
+        if (proposal.resultsRevealed) {
+            return ProposalState.Revealed;
+        }
+        if (block.timestamp < proposal.startTime) {
+            return ProposalState.Pending;
+        }
+        if (block.timestamp <= proposal.endTime) {
+            return ProposalState.Active;
+        }
+        return ProposalState.Closed;
+    }
+    
+    /// @notice Cancel a pending or active proposal
+    /// @param proposalId The ID of the proposal
+    /// @dev Ballots already cast stay encrypted forever; a cancelled proposal can't be revealed
+    function cancelProposal(uint32 proposalId) external onlyAdmin {
+        ProposalState state = getProposalState(proposalId);
+        require(
+            state == ProposalState.Pending || state == ProposalState.Active,
+            "Only pending or active proposals can be cancelled"
+        );
+        
+        proposals[proposalId].cancelled = true;
+        emit ProposalCancelled(proposalId);
     }
     
     /// @notice Get proposal details
@@ -273,8 +769,369 @@ contract PrivateVoting is SepoliaConfig {
         proposalExists(proposalId)
     {
         require(block.timestamp <= proposals[proposalId].endTime, "Voting already ended");
+        require(!proposals[proposalId].cancelled, "Proposal is cancelled");
         require(additionalSeconds > 0, "Extension must be positive");
         
         proposals[proposalId].endTime += additionalSeconds;
     }
+    
+    /// @notice Internal function that registers a proposal and schedules its voting period
+    /// @param description The description of the proposal
+    /// @param startTime When voting opens
+    /// @param durationInSeconds How long the voting should remain open
+    /// @return proposalId The ID of the new proposal; tallies are initialized by the caller
+    function _createProposal(
+        string calldata description,
+        uint256 startTime,
+        uint256 durationInSeconds
+    ) internal returns (uint32 proposalId) {
+        require(durationInSeconds > 0, "Duration must be positive");
+        require(bytes(description).length > 0, "Description cannot be empty");
+        require(startTime >= block.timestamp, "Start time is in the past");
+        
+        proposalId = proposalCount++;
+        uint256 endTime = startTime + durationInSeconds;
+        
+        Proposal storage proposal = proposals[proposalId];
+        proposal.description = description;
+        proposal.startTime = startTime;
+        proposal.endTime = endTime;
+        proposal.exists = true;
+        proposal.weighted = weightedVotingEnabled;
+        proposal.allowRevote = revotingEnabled;
+        
+        emit ProposalCreated(proposalId, description, startTime, endTime);
+    }
+    
+    /// @notice Internal function shared by the quorum and passing-threshold proposal variants, immediate or scheduled
+    function _createRuledProposal(
+        string calldata description,
+        uint256 startTime,
+        uint256 durationInSeconds,
+        uint32 quorum,
+        uint8 passingPercent
+    ) internal returns (uint32 proposalId) {
+        require(passingPercent > 0 && passingPercent <= 100, "Passing percent must be 1-100");
+        
+        proposalId = _createProposal(description, startTime, durationInSeconds);
+        
+        Proposal storage proposal = proposals[proposalId];
+        proposal.hasPassingRules = true;
+        proposal.quorum = quorum;
+        proposal.passingPercent = passingPercent;
+        
+        // Initialized once the rules are set, so the tallies are never allowed to the admins
+        _initBinaryTallies(proposalId);
+    }
+    
+    /// @notice Internal function shared by the multi-option proposal variants, immediate or scheduled
+    function _createOptionProposal(
+        string calldata description,
+        uint256 startTime,
+        uint256 durationInSeconds,
+        string[] calldata optionLabels
+    ) internal returns (uint32 proposalId) {
+        require(optionLabels.length >= 2, "At least two options required");
+        require(optionLabels.length <= MAX_OPTIONS, "Too many options");
+        
+        proposalId = _createProposal(description, startTime, durationInSeconds);
+        Proposal storage proposal = proposals[proposalId];
+        
+        for (uint256 i = 0; i < optionLabels.length; i++) {
+            require(bytes(optionLabels[i]).length > 0, "Option label cannot be empty");
+            proposal.optionLabels.push(optionLabels[i]);
+            proposal.optionVotes.push(FHE.asEuint32(0));
+            
+            FHE.allowThis(proposal.optionVotes[i]);
+            _allowAdmins(proposal.optionVotes[i]);
+        }
+    }
+    
+    /// @notice Internal function returning the encrypted weight a ballot counts with
+    /// @param proposalId The ID of the proposal being voted on
+    /// @param voter The voter casting the ballot
+    function _ballotWeight(uint32 proposalId, address voter) internal returns (euint32) {
+        if (proposals[proposalId].weighted && FHE.isInitialized(voterWeights[voter])) {
+            return voterWeights[voter];
+        }
+        return FHE.asEuint32(1);
+    }
+    
+    /// @notice Internal function that initializes the encrypted yes/no tallies of a proposal
+    /// @param proposalId The ID of the proposal
+    function _initBinaryTallies(uint32 proposalId) internal {
+        Proposal storage proposal = proposals[proposalId];
+        
+        proposal.yesVotes = FHE.asEuint32(0);
+        proposal.noVotes = FHE.asEuint32(0);
+        
+        // Grant permissions for encrypted vote counting
+        FHE.allowThis(proposal.yesVotes);
+        FHE.allowThis(proposal.noVotes);
+        if (!proposal.hasPassingRules) {
+            _allowAdmins(proposal.yesVotes);
+            _allowAdmins(proposal.noVotes);
+        }
+    }
+    
+    /// @notice Internal function evaluating quorum and passing rules on the encrypted tallies
+    /// @param proposal The proposal to evaluate
+    /// @return quorumReached Encrypted (yes + no >= quorum)
+    /// @return passed Encrypted (quorumReached && yes * 100 >= passingPercent * (yes + no))
+    /// @dev Tallies are euint32, so the percentage products wrap above ~42 million votes
+    function _evaluateOutcome(Proposal storage proposal) 
+        internal 
+        returns (ebool quorumReached, ebool passed) 
+    {
+        euint32 turnout = FHE.add(proposal.yesVotes, proposal.noVotes);
+        quorumReached = FHE.ge(turnout, proposal.quorum);
+        
+        ebool thresholdMet = FHE.ge(
+            FHE.mul(proposal.yesVotes, uint32(100)),
+            FHE.mul(turnout, uint32(proposal.passingPercent))
+        );
+        passed = FHE.and(quorumReached, thresholdMet);
+    }
+    
+    /// @notice Internal function that counts a ballot, replacing the sender's previous one
+    /// @param proposalId The ID of the proposal being voted on
+    /// @param choices Encrypted selection per tally slot
+    /// @dev A re-vote first subtracts the stored ballot from every tally, so the old choice is
+    ///      withdrawn without ever being decrypted. The same technique removes the sender's
+    ///      weight from their delegate's ballot when they override a delegation.
+    function _castBallot(uint32 proposalId, ebool[] memory choices) internal {
+        Proposal storage proposal = proposals[proposalId];
+        Ballot storage ballot = ballots[msg.sender][proposalId];
+        bool isRevote = hasVoted[msg.sender][proposalId];
+        
+        if (isRevote) {
+            for (uint256 i = 0; i < ballot.choices.length; i++) {
+                _updateTally(proposal, i, _ballotContribution(ballot.choices[i], ballot.weight), false);
+            }
+            // Delegated weight was withdrawn with the ballot and is collected again below
+            delete ballot.choices;
+        }
+        
+        // Voting directly overrides a delegation that was already counted
+        if (delegatedWeights[msg.sender][proposalId].delegate != address(0)) {
+            _withdrawDelegatedWeight(proposalId, msg.sender);
+        }
+        
+        // Encrypted ballot weight: one, or the voter's weight on weighted proposals,
+        // plus the weight of every delegator who has not voted themselves
+        euint32 weight = FHE.add(
+            _ballotWeight(proposalId, msg.sender),
+            _collectDelegatedWeight(proposalId, msg.sender)
+        );
+        
+        for (uint256 i = 0; i < choices.length; i++) {
+            _updateTally(proposal, i, _ballotContribution(choices[i], weight), true);
+            
+            ballot.choices.push(choices[i]);
+            FHE.allowThis(choices[i]);
+        }
+        ballot.weight = weight;
+        FHE.allowThis(weight);
+        
+        // Mark voter as having voted
+        hasVoted[msg.sender][proposalId] = true;
+        
+        if (isRevote) {
+            emit VoteChanged(msg.sender, proposalId);
+        } else {
+            emit VoteCast(msg.sender, proposalId);
+        }
+    }
+    
+    /// @notice Internal function returning what a ballot adds to one tally slot
+    /// @param selected Encrypted flag, true if the ballot selects this slot
+    /// @param weight Encrypted weight of the ballot
+    function _ballotContribution(ebool selected, euint32 weight) internal returns (euint32) {
+        return FHE.select(selected, weight, FHE.asEuint32(0));
+    }
+    
+    /// @notice Internal function that adds to or subtracts from one encrypted tally
+    /// @param proposal The proposal whose tally changes
+    /// @param slot 0 = yes and 1 = no on yes/no proposals, otherwise the option index
+    /// @param amount Encrypted amount to apply
+    /// @param isAddition True to add the amount, false to subtract it
+    function _updateTally(
+        Proposal storage proposal,
+        uint256 slot,
+        euint32 amount,
+        bool isAddition
+    ) internal {
+        euint32 tally;
+        if (proposal.optionVotes.length > 0) {
+            tally = proposal.optionVotes[slot];
+        } else {
+            tally = slot == 0 ? proposal.yesVotes : proposal.noVotes;
+        }
+        
+        tally = isAddition ? FHE.add(tally, amount) : FHE.sub(tally, amount);
+        
+        // Update permissions; tallies of proposals with passing rules stay with this contract
+        FHE.allowThis(tally);
+        if (!proposal.hasPassingRules) {
+            _allowAdmins(tally);
+        }
+        
+        if (proposal.optionVotes.length > 0) {
+            proposal.optionVotes[slot] = tally;
+        } else if (slot == 0) {
+            proposal.yesVotes = tally;
+        } else {
+            proposal.noVotes = tally;
+        }
+    }
+    
+    /// @notice Internal function moving the sender from one delegate's delegator list to another's
+    /// @param previousList The delegator list of the previous delegate
+    /// @param previous The previous delegate, address(0) if there was none
+    /// @param list The delegator list of the new delegate
+    /// @param delegatee The new delegate, address(0) clears the delegation
+    /// @dev Callers skip the move when the delegate does not change
+    function _registerDelegation(
+        address[] storage previousList,
+        address previous,
+        address[] storage list,
+        address delegatee
+    ) internal {
+        if (delegatee != address(0)) {
+            require(delegatee != msg.sender, "Cannot delegate to yourself");
+            require(authorizedVoters[delegatee], "Delegate is not an authorized voter");
+            require(list.length < MAX_DELEGATORS, "Delegate has too many delegators");
+            list.push(msg.sender);
+        }
+        
+        if (previous != address(0)) {
+            // Swap and pop; the list never holds more than MAX_DELEGATORS entries
+            for (uint256 i = 0; i < previousList.length; i++) {
+                if (previousList[i] == msg.sender) {
+                    previousList[i] = previousList[previousList.length - 1];
+                    previousList.pop();
+                    break;
+                }
+            }
+        }
+    }
+    
+    /// @notice Internal function withdrawing the sender's counted weight from a delegate who no
+    ///         longer represents them on a proposal
+    /// @param proposalId The ID of the proposal
+    /// @return stillCounted True if a delegate still carries the weight on an open proposal
+    /// @dev The new delegate carries the weight from their next ballot on. Once voting has ended
+    ///      the tallies are final and the weight stays where it was counted.
+    function _withdrawMovedWeight(uint32 proposalId) internal returns (bool stillCounted) {
+        Proposal storage proposal = proposals[proposalId];
+        address counted = delegatedWeights[msg.sender][proposalId].delegate;
+        if (counted == address(0) || proposal.cancelled || block.timestamp > proposal.endTime) {
+            return false;
+        }
+        if (counted == getDelegate(msg.sender, proposalId)) {
+            return true;
+        }
+        _withdrawDelegatedWeight(proposalId, msg.sender);
+        return false;
+    }
+    
+    /// @notice Internal function summing the weight a delegate votes with on behalf of others
+    /// @param proposalId The ID of the proposal being voted on
+    /// @param delegatee The delegate casting the ballot
+    /// @return total Encrypted sum of the weights of delegators who have not voted themselves
+    function _collectDelegatedWeight(uint32 proposalId, address delegatee) 
+        internal 
+        returns (euint32 total) 
+    {
+        total = _collectFrom(delegatorsOf[delegatee], true, proposalId, delegatee, FHE.asEuint32(0));
+        total = _collectFrom(proposalDelegatorsOf[delegatee][proposalId], false, proposalId, delegatee, total);
+    }
+    
+    /// @notice Internal function adding the weight of one list of delegators to a delegate's ballot
+    /// @param delegators Global or proposal-specific delegators of the delegate
+    /// @param global True for the global list, whose members a proposal-specific delegate overrides
+    /// @param proposalId The ID of the proposal being voted on
+    /// @param delegatee The delegate casting the ballot
+    /// @param total Encrypted weight collected so far
+    /// @return Encrypted weight collected including this list
+    /// @dev Each counted delegator is recorded so a later direct vote or re-delegation can withdraw
+    ///      the weight. A record pointing at the delegate itself is left over from the ballot it is
+    ///      replacing, which already took that weight out of the tallies; it is overwritten, or
+    ///      forgotten if the delegator no longer counts.
+    function _collectFrom(
+        address[] storage delegators,
+        bool global,
+        uint32 proposalId,
+        address delegatee,
+        euint32 total
+    ) internal returns (euint32) {
+        for (uint256 i = 0; i < delegators.length; i++) {
+            address delegator = delegators[i];
+            DelegatedWeight storage counted = delegatedWeights[delegator][proposalId];
+            if (counted.delegate != address(0) && counted.delegate != delegatee) {
+                continue;
+            }
+            if (
+                (global && proposalDelegates[delegator][proposalId] != address(0)) ||
+                !authorizedVoters[delegator] ||
+                hasVoted[delegator][proposalId]
+            ) {
+                if (counted.delegate == delegatee) {
+                    _forgetCountedWeight(delegator, proposalId);
+                }
+                continue;
+            }
+            
+            if (counted.delegate == address(0)) {
+                countedProposals[delegator].push(proposalId);
+            }
+            counted.delegate = delegatee;
+            counted.weight = _ballotWeight(proposalId, delegator);
+            FHE.allowThis(counted.weight);
+            
+            total = FHE.add(total, counted.weight);
+        }
+        return total;
+    }
+    
+    /// @notice Internal function dropping the record of weight that no ballot carries any more
+    /// @param delegator The delegator whose weight was counted
+    /// @param proposalId The ID of the proposal
+    function _forgetCountedWeight(address delegator, uint32 proposalId) internal {
+        delete delegatedWeights[delegator][proposalId];
+        
+        // Recent proposals sit at the end of the list
+        uint32[] storage counted = countedProposals[delegator];
+        for (uint256 i = counted.length; i > 0; i--) {
+            if (counted[i - 1] == proposalId) {
+                counted[i - 1] = counted[counted.length - 1];
+                counted.pop();
+                return;
+            }
+        }
+    }
+    
+    /// @notice Internal function that removes a delegator's weight from their delegate's ballot
+    /// @param proposalId The ID of the proposal
+    /// @param delegator The delegator who is now voting directly
+    function _withdrawDelegatedWeight(uint32 proposalId, address delegator) internal {
+        DelegatedWeight storage delegated = delegatedWeights[delegator][proposalId];
+        Ballot storage delegateBallot = ballots[delegated.delegate][proposalId];
+        Proposal storage proposal = proposals[proposalId];
+        
+        for (uint256 i = 0; i < delegateBallot.choices.length; i++) {
+            _updateTally(
+                proposal,
+                i,
+                _ballotContribution(delegateBallot.choices[i], delegated.weight),
+                false
+            );
+        }
+        
+        delegateBallot.weight = FHE.sub(delegateBallot.weight, delegated.weight);
+        FHE.allowThis(delegateBallot.weight);
+        
+        delete delegatedWeights[delegator][proposalId];
+    }
+
 }
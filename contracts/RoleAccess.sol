@@ -0,0 +1,143 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint32} from "@fhevm/solidity/lib/FHE.sol";
+
+/// @title Role-Based Access Control for FHEVM Examples
+/// @author Zama Community Tutorial
+/// @notice Shared OWNER / ADMIN / OPERATOR role model with two-step ownership transfer
+/// @dev Roles are hierarchical: the owner holds every role and admins also act as operators.
+///      Decryption rights live in the FHE ACL, not in this contract, so inheriting contracts
+///      override `_onRoleGranted` to allow existing handles to new owners and admins. Contracts
+///      with an unbounded number of handles share them through a paginated owner call instead,
+///      keeping `grantRole` and `acceptOwnership` cheap.
+///      The ACL cannot take access away: a revoked admin keeps access to handles it was
+///      already allowed on, but is not allowed on any handle created afterwards.
+///      There is no constructor: inheriting contracts call `_initializeRoleAccess` from their
+///      constructor or, behind a proxy, from their initializer.
+abstract contract RoleAccess {
+    bytes32 public constant OWNER_ROLE = keccak256("OWNER_ROLE");
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+    bytes32 public constant OPERATOR_ROLE = keccak256("OPERATOR_ROLE");
+    
+    // The single owner, changed only through transferOwnership + acceptOwnership
+    address public owner;
+    address public pendingOwner;
+    
+    // Explicit members of ADMIN_ROLE and OPERATOR_ROLE
+    mapping(bytes32 => address[]) private _roleMembers;
+    mapping(bytes32 => mapping(address => uint256)) private _memberIndex; // 1-based, 0 = not a member
+    
+    // Events
+    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
+    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
+    event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Only owner can perform this action");
+        _;
+    }
+    
+    /// @notice Set the initial owner; succeeds only once per contract storage
+    /// @param initialOwner The first owner
+    /// @dev `owner` doubles as the initialized flag, as ownership can never move to address(0)
+    function _initializeRoleAccess(address initialOwner) internal {
+        require(owner == address(0), "Already initialized");
+        require(initialOwner != address(0), "Invalid owner address");
+        owner = initialOwner;
+        emit OwnershipTransferred(address(0), initialOwner);
+    }
+    
+    /// @notice Check whether an account holds a role, directly or through the hierarchy
+    /// @param role OWNER_ROLE, ADMIN_ROLE or OPERATOR_ROLE
+    /// @param account The address to check
+    /// @return True if the account holds the role
+    function hasRole(bytes32 role, address account) public view returns (bool) {
+        if (account == owner) {
+            return true;
+        }
+        if (role == OPERATOR_ROLE && _memberIndex[ADMIN_ROLE][account] != 0) {
+            return true;
+        }
+        return _memberIndex[role][account] != 0;
+    }
+    
+    /// @notice Get the explicit members of a role (the owner is implicit and not listed)
+    /// @param role ADMIN_ROLE or OPERATOR_ROLE
+    /// @return members The addresses granted the role
+    function getRoleMembers(bytes32 role) public view returns (address[] memory members) {
+        return _roleMembers[role];
+    }
+    
+    /// @notice Grant ADMIN_ROLE or OPERATOR_ROLE to an account (only owner)
+    /// @param role ADMIN_ROLE or OPERATOR_ROLE
+    /// @param account The address to grant the role to
+    function grantRole(bytes32 role, address account) external onlyOwner {
+        require(role == ADMIN_ROLE || role == OPERATOR_ROLE, "Unknown role");
+        require(account != address(0), "Invalid account address");
+        require(_memberIndex[role][account] == 0, "Account already has role");
+        
+        _roleMembers[role].push(account);
+        _memberIndex[role][account] = _roleMembers[role].length;
+        
+        emit RoleGranted(role, account, msg.sender);
+        _onRoleGranted(role, account);
+    }
+    
+    /// @notice Revoke ADMIN_ROLE or OPERATOR_ROLE from an account (only owner)
+    /// @param role ADMIN_ROLE or OPERATOR_ROLE
+    /// @param account The address to revoke the role from
+    function revokeRole(bytes32 role, address account) external onlyOwner {
+        uint256 index = _memberIndex[role][account];
+        require(index != 0, "Account does not have role");
+        
+        // Swap and pop to keep the member list dense
+        address[] storage members = _roleMembers[role];
+        address last = members[members.length - 1];
+        members[index - 1] = last;
+        _memberIndex[role][last] = index;
+        members.pop();
+        delete _memberIndex[role][account];
+        
+        emit RoleRevoked(role, account, msg.sender);
+    }
+    
+    /// @notice Start a two-step ownership transfer (only owner)
+    /// @param newOwner The address that must call `acceptOwnership` to become owner
+    function transferOwnership(address newOwner) external onlyOwner {
+        require(newOwner != address(0), "Invalid owner address");
+        pendingOwner = newOwner;
+        emit OwnershipTransferStarted(owner, newOwner);
+    }
+    
+    /// @notice Complete a pending ownership transfer (only the pending owner)
+    function acceptOwnership() external {
+        require(msg.sender == pendingOwner, "Only pending owner can accept ownership");
+        
+        address previousOwner = owner;
+        owner = msg.sender;
+        pendingOwner = address(0);
+        
+        emit OwnershipTransferred(previousOwner, msg.sender);
+        _onRoleGranted(OWNER_ROLE, msg.sender);
+    }
+    
+    /// @notice Allow the owner and every admin to decrypt an encrypted value
+    /// @param value The encrypted value to share
+    function _allowAdmins(euint32 value) internal {
+        FHE.allow(value, owner);
+        
+        address[] storage admins = _roleMembers[ADMIN_ROLE];
+        for (uint256 i = 0; i < admins.length; i++) {
+            if (admins[i] != owner) {
+                FHE.allow(value, admins[i]);
+            }
+        }
+    }
+    
+    /// @notice Hook called after an account becomes owner or receives a role
+    /// @param role The role that was granted (OWNER_ROLE on ownership transfer)
+    /// @param account The new role holder
+    function _onRoleGranted(bytes32 role, address account) internal virtual {}
+}
@@ -1,14 +1,22 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import {FHE, euint32, externalEuint32, ebool} from "@fhevm/solidity/lib/FHE.sol";
-import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {FHE, euint32, euint64, externalEuint32, ebool, eaddress} from "@fhevm/solidity/lib/FHE.sol";
+import {SepoliaConfig, ZamaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {RoleAccess} from "./RoleAccess.sol";
+import {ConfidentialToken} from "./ConfidentialToken.sol";
 
 /// @title Secret Auction House
 /// @author Zama Community Tutorial  
 /// @notice A sealed-bid auction system where bids remain private until the auction ends
 /// @dev Demonstrates advanced FHEVM operations: encrypted comparisons, conditional logic, and complex state management
-contract SecretAuction is SepoliaConfig {
+contract SecretAuction is SepoliaConfig, RoleAccess {
+    // Pricing rule applied at settlement
+    enum AuctionType {
+        FirstPrice,  // Winner pays their own bid
+        SecondPrice  // Vickrey: winner pays the second-highest bid (or the reserve, if higher)
+    }
+    
     // Auction item structure
     struct AuctionItem {
         string title;
@@ -16,30 +24,61 @@ contract SecretAuction is SepoliaConfig {
         address seller;
         euint32 reservePrice; // Encrypted minimum acceptable bid
         euint32 highestBid;   // Encrypted highest bid
-        address highestBidder;
+        euint32 secondHighestBid; // Encrypted runner-up bid (second-price auctions only)
+        eaddress highestBidder; // Encrypted address of the current highest bidder
+        address winner;       // Revealed highest bidder, set once settlement succeeds
         uint256 startTime;
         uint256 endTime;
         bool exists;
         bool finalized;
         bool cancelled;
+        bool settlementPending; // Decryption requested, waiting for the oracle callback
+        AuctionType auctionType;
+        ConfidentialToken paymentToken; // Zero for ETH deposits, otherwise bids are escrowed in this token
     }
     
     // Bidder information
     struct BidderInfo {
         euint32 bidAmount;
+        uint256 deposit;      // ETH escrowed for this auction, in wei (public collateral cap; 0 in token auctions)
         bool hasBid;
-        bool refunded;
+        bool refunded;        // Escrow already returned (or paid out as change to the winner)
+    }
+    
+    // Optional anti-sniping rule: a bid within `window` seconds of the end pushes the end back
+    // by `extension` seconds, never beyond `maxEndTime`
+    struct SoftClose {
+        uint256 window;
+        uint256 extension;
+        uint256 maxEndTime;
     }
     
+    // Bid denomination: an encrypted bid of N means N * BID_UNIT wei (1 unit = 1 microether).
+    // A euint32 bid can therefore express up to ~4294 ETH.
+    uint256 public constant BID_UNIT = 1e12;
+    
     // State variables
-    address public auctionHouse;
     uint32 public auctionCount;
-    uint256 public platformFeePercent = 250; // 2.5% in basis points
+    uint256 public platformFeePercent; // In basis points, 2.5% after initialization
     
     mapping(uint32 => AuctionItem) public auctions;
     mapping(uint32 => mapping(address => BidderInfo)) public bidders;
     mapping(uint32 => address[]) public auctionBidders;
-    mapping(address => uint256) public balances; // For refunds and payments
+    mapping(address => uint256) public balances; // Seller proceeds and platform fees, paid out by `withdraw`
+    mapping(uint32 => SoftClose) public softCloses;
+    
+    // ETH accounting: every wei held is either escrowed behind a bid or withdrawable
+    uint256 public totalEscrowed;
+    uint256 public totalWithdrawable;
+    
+    // Pending settlement decryption requests: requestId => auctionId
+    mapping(uint256 => uint32) private settlementRequests;
+    
+    // An update or retraction leaves an old amount inside the encrypted maximum, so the leader
+    // is rebuilt from the current bids once the auction ends (see `rebuildLeader`)
+    mapping(uint32 => bool) public leaderRebuildPending;
+    mapping(uint32 => uint256) private rebuiltBids; // Rebuild progress: bid entries folded so far
+    mapping(uint32 => mapping(address => uint256)) private bidPositions; // 1-based entry in auctionBidders
     
     // Events
     event AuctionCreated(
@@ -47,20 +86,27 @@ contract SecretAuction is SepoliaConfig {
         string title, 
         address indexed seller, 
         uint256 startTime, 
-        uint256 endTime
+        uint256 endTime,
+        AuctionType auctionType
     );
     event BidPlaced(uint32 indexed auctionId, address indexed bidder);
+    event BidUpdated(uint32 indexed auctionId, address indexed bidder);
+    event BidRetracted(uint32 indexed auctionId, address indexed bidder);
     event AuctionFinalized(
         uint32 indexed auctionId, 
         address indexed winner, 
-        uint256 winningAmount
+        uint256 winningAmount // Always 0 in token auctions, where the amount stays encrypted
     );
+    event AuctionSettlementRequested(uint32 indexed auctionId, uint256 requestId);
     event AuctionCancelled(uint32 indexed auctionId);
+    event SoftCloseConfigured(uint32 indexed auctionId, uint256 window, uint256 extension, uint256 maxEndTime);
+    event AuctionExtended(uint32 indexed auctionId, uint256 newEndTime);
+    // Amounts are exact wei; in token auctions both are reported as 0 since the transfers are encrypted
     event RefundProcessed(uint32 indexed auctionId, address indexed bidder, uint256 amount);
     event PaymentProcessed(uint32 indexed auctionId, address indexed seller, uint256 amount);
     
     modifier onlyAuctionHouse() {
-        require(msg.sender == auctionHouse, "Only auction house can perform this action");
+        require(hasRole(ADMIN_ROLE, msg.sender), "Only auction house can perform this action");
         _;
     }
     
@@ -87,12 +133,26 @@ contract SecretAuction is SepoliaConfig {
         _;
     }
     
-    /// @notice Initialize the auction house
+    /// @notice Initialize a direct deployment (and lock the implementation of a proxy deployment)
     constructor() {
-        auctionHouse = msg.sender;
+        initialize();
+    }
+    
+    /// @notice Initialize the auction house and make the caller owner
+    /// @dev Proxy deployments run this instead of the constructor, including the coprocessor setup
+    function initialize() public {
+        _initializeRoleAccess(msg.sender);
+        FHE.setCoprocessor(ZamaConfig.getSepoliaConfig());
+        platformFeePercent = 250;
     }
     
-    /// @notice Create a new auction
+    /// @notice The auction house account, which receives platform fees (the contract owner)
+    /// @return The current owner address
+    function auctionHouse() external view returns (address) {
+        return owner;
+    }
+    
+    /// @notice Create a new first-price auction
     /// @param title The title of the auction item
     /// @param description Description of the item
     /// @param encryptedReservePrice Encrypted minimum acceptable bid
@@ -105,6 +165,82 @@ contract SecretAuction is SepoliaConfig {
         bytes calldata reserveProof,
         uint256 durationInSeconds
     ) external returns (uint32) {
+        return _createAuction(
+            title,
+            description,
+            encryptedReservePrice,
+            reserveProof,
+            durationInSeconds,
+            AuctionType.FirstPrice,
+            ConfidentialToken(address(0))
+        );
+    }
+    
+    /// @notice Create a new auction with an explicit pricing rule
+    /// @param title The title of the auction item
+    /// @param description Description of the item
+    /// @param encryptedReservePrice Encrypted minimum acceptable bid
+    /// @param reserveProof Cryptographic proof for the reserve price
+    /// @param durationInSeconds How long the auction should run
+    /// @param auctionType FirstPrice or SecondPrice (Vickrey)
+    function createAuction(
+        string calldata title,
+        string calldata description,
+        externalEuint32 encryptedReservePrice,
+        bytes calldata reserveProof,
+        uint256 durationInSeconds,
+        AuctionType auctionType
+    ) external returns (uint32) {
+        return _createAuction(
+            title,
+            description,
+            encryptedReservePrice,
+            reserveProof,
+            durationInSeconds,
+            auctionType,
+            ConfidentialToken(address(0))
+        );
+    }
+    
+    /// @notice Create a new auction whose bids are escrowed in a confidential token
+    /// @param title The title of the auction item
+    /// @param description Description of the item
+    /// @param encryptedReservePrice Encrypted minimum acceptable bid, in token base units
+    /// @param reserveProof Cryptographic proof for the reserve price
+    /// @param durationInSeconds How long the auction should run
+    /// @param auctionType FirstPrice or SecondPrice (Vickrey)
+    /// @param paymentToken The confidential token bids are paid in
+    function createAuction(
+        string calldata title,
+        string calldata description,
+        externalEuint32 encryptedReservePrice,
+        bytes calldata reserveProof,
+        uint256 durationInSeconds,
+        AuctionType auctionType,
+        ConfidentialToken paymentToken
+    ) external returns (uint32) {
+        require(address(paymentToken) != address(0), "Invalid payment token");
+        return _createAuction(
+            title,
+            description,
+            encryptedReservePrice,
+            reserveProof,
+            durationInSeconds,
+            auctionType,
+            paymentToken
+        );
+    }
+    
+    /// @notice Internal function shared by all `createAuction` variants
+    function _createAuction(
+        string calldata title,
+        string calldata description,
+        externalEuint32 encryptedReservePrice,
+        bytes calldata reserveProof,
+        uint256 durationInSeconds,
+        AuctionType auctionType,
+        ConfidentialToken paymentToken
+    ) internal returns (uint32) {
         require(bytes(title).length > 0, "Title cannot be empty");
         require(durationInSeconds > 0, "Duration must be positive");
         require(durationInSeconds <= 7 days, "Duration cannot exceed 7 days");
@@ -122,30 +258,40 @@ contract SecretAuction is SepoliaConfig {
             seller: msg.sender,
             reservePrice: reservePrice,
             highestBid: FHE.asEuint32(0),
-            highestBidder: address(0),
+            secondHighestBid: FHE.asEuint32(0),
+            highestBidder: FHE.asEaddress(address(0)),
+            winner: address(0),
             startTime: startTime,
             endTime: endTime,
             exists: true,
             finalized: false,
-            cancelled: false
+            cancelled: false,
+            settlementPending: false,
+            auctionType: auctionType,
+            paymentToken: paymentToken
         });
         
         // Set up permissions for encrypted values
         FHE.allowThis(auctions[auctionId].reservePrice);
         FHE.allowThis(auctions[auctionId].highestBid);
+        FHE.allowThis(auctions[auctionId].secondHighestBid);
+        FHE.allowThis(auctions[auctionId].highestBidder);
         FHE.allow(auctions[auctionId].reservePrice, msg.sender);
         FHE.allow(auctions[auctionId].highestBid, msg.sender);
-        FHE.allow(auctions[auctionId].reservePrice, auctionHouse);
-        FHE.allow(auctions[auctionId].highestBid, auctionHouse);
+        _allowAdmins(auctions[auctionId].reservePrice);
+        _allowAdmins(auctions[auctionId].highestBid);
         
-        emit AuctionCreated(auctionId, title, msg.sender, startTime, endTime);
+        emit AuctionCreated(auctionId, title, msg.sender, startTime, endTime, auctionType);
         return auctionId;
     }
     
     /// @notice Place an encrypted bid on an auction
     /// @param auctionId The ID of the auction
-    /// @param encryptedBid The encrypted bid amount
+    /// @param encryptedBid The encrypted bid amount, in BID_UNIT
     /// @param bidProof Cryptographic proof for the bid
+    /// @dev msg.value becomes the bidder's deposit for this auction and caps the bid: an
+    ///      encrypted bid larger than the deposit is silently replaced by zero.
+    ///      Each bidder bids once; use `updateBid` or `retractBid` afterwards
     function placeBid(
         uint32 auctionId,
         externalEuint32 encryptedBid,
@@ -154,26 +300,157 @@ contract SecretAuction is SepoliaConfig {
         auctionExists(auctionId)
         auctionActive(auctionId)
     {
-        require(msg.sender != auctions[auctionId].seller, "Seller cannot bid on own auction");
+        require(address(auctions[auctionId].paymentToken) == address(0), "Auction is paid in tokens");
         require(msg.value > 0, "Must send ETH with bid");
+        _placeBid(auctionId, encryptedBid, bidProof);
+    }
+    
+    /// @notice Place an encrypted bid on a token auction, escrowing the bid in the payment token
+    /// @param auctionId The ID of the auction
+    /// @param encryptedBid The encrypted bid amount, in token base units
+    /// @param bidProof Cryptographic proof for the bid
+    /// @dev The bidder must first `approve` this contract on the payment token. The bid is
+    ///      pulled with an encrypted `transferFrom`; if the allowance or balance is too small
+    ///      the token moves nothing and the bid silently becomes zero, exactly like an
+    ///      under-collateralized ETH bid. No cleartext amount ever appears on-chain.
+    function placeTokenBid(
+        uint32 auctionId,
+        externalEuint32 encryptedBid,
+        bytes calldata bidProof
+    ) external 
+        auctionExists(auctionId)
+        auctionActive(auctionId)
+    {
+        require(address(auctions[auctionId].paymentToken) != address(0), "Auction is paid in ETH");
+        _placeBid(auctionId, encryptedBid, bidProof);
+    }
+    
+    /// @notice Internal function shared by `placeBid` and `placeTokenBid`
+    function _placeBid(uint32 auctionId, externalEuint32 encryptedBid, bytes calldata bidProof) internal {
+        require(msg.sender != auctions[auctionId].seller, "Seller cannot bid on own auction");
+        require(!bidders[auctionId][msg.sender].hasBid, "Already placed a bid, use updateBid");
         
-        // Convert external encrypted bid to internal format
-        euint32 bidAmount = FHE.fromExternal(encryptedBid, bidProof);
+        euint32 bidAmount = _collateralize(auctionId, FHE.fromExternal(encryptedBid, bidProof));
         
-        // Store bidder information
-        if (!bidders[auctionId][msg.sender].hasBid) {
-            auctionBidders[auctionId].push(msg.sender);
+        auctionBidders[auctionId].push(msg.sender);
+        bidPositions[auctionId][msg.sender] = auctionBidders[auctionId].length;
+        if (!leaderRebuildPending[auctionId]) {
+            _updateLeader(auctionId, msg.sender, bidAmount);
         }
         
-        bidders[auctionId][msg.sender] = BidderInfo({
-            bidAmount: bidAmount,
-            hasBid: true,
-            refunded: false
-        });
+        emit BidPlaced(auctionId, msg.sender);
+        _applySoftClose(auctionId);
+    }
+    
+    /// @notice Replace the caller's bid with a new encrypted amount
+    /// @param auctionId The ID of the auction
+    /// @param encryptedBid The new encrypted bid amount
+    /// @param bidProof Cryptographic proof for the bid
+    /// @dev In ETH auctions msg.value tops up the deposit and the new bid is capped by the total
+    ///      deposit; the deposit is only released by `retractBid` or settlement, since releasing
+    ///      part of it on a lower bid would reveal the bid. In token auctions the old escrow is
+    ///      returned and the new amount pulled with `transferFrom`. The old amount is still part
+    ///      of the encrypted maximum, so the leader must be rebuilt after the auction ends.
+    function updateBid(
+        uint32 auctionId,
+        externalEuint32 encryptedBid,
+        bytes calldata bidProof
+    ) external payable 
+        auctionExists(auctionId)
+        auctionActive(auctionId)
+    {
+        BidderInfo storage info = bidders[auctionId][msg.sender];
+        require(info.hasBid, "No bid to update");
+        
+        ConfidentialToken token = auctions[auctionId].paymentToken;
+        if (address(token) != address(0)) {
+            _payTokens(token, msg.sender, FHE.asEuint64(info.bidAmount));
+        }
+        _collateralize(auctionId, FHE.fromExternal(encryptedBid, bidProof));
+        leaderRebuildPending[auctionId] = true;
+        
+        emit BidUpdated(auctionId, msg.sender);
+        _applySoftClose(auctionId);
+    }
+    
+    /// @notice Withdraw the caller's bid before the auction ends
+    /// @param auctionId The ID of the auction
+    /// @dev The deposit (or token escrow) is sent back and the bid no longer counts, so the
+    ///      bidder may bid again later with `placeBid` (as a new, later bid)
+    function retractBid(uint32 auctionId) 
+        external 
+        auctionExists(auctionId)
+        auctionActive(auctionId)
+    {
+        BidderInfo storage info = bidders[auctionId][msg.sender];
+        require(info.hasBid, "No bid to retract");
+        info.hasBid = false;
+        leaderRebuildPending[auctionId] = true;
         
+        emit BidRetracted(auctionId, msg.sender);
+        _refundDeposit(auctionId, msg.sender);
+    }
+    
+    /// @notice Internal function securing a new bid and storing it for the caller
+    /// @param auctionId The ID of the auction
+    /// @param bidAmount The encrypted bid requested
+    /// @return The stored bid: capped by the ETH deposit, or the amount the token actually escrowed
+    function _collateralize(uint32 auctionId, euint32 bidAmount) internal returns (euint32) {
+        BidderInfo storage info = bidders[auctionId][msg.sender];
+        ConfidentialToken token = auctions[auctionId].paymentToken;
+        uint256 deposit = info.deposit + msg.value;
+        
+        if (address(token) == address(0)) {
+            uint256 depositUnits = deposit / BID_UNIT;
+            require(depositUnits > 0, "Deposit below one bid unit");
+            require(depositUnits <= type(uint32).max, "Deposit exceeds maximum bid");
+            totalEscrowed += msg.value;
+            
+            // Zero out bids that are not fully backed by the deposit
+            bidAmount = FHE.select(
+                FHE.le(bidAmount, uint32(depositUnits)),
+                bidAmount,
+                FHE.asEuint32(0)
+            );
+        } else {
+            require(msg.value == 0, "Token auctions do not accept ETH");
+            
+            // Escrow the bid: the token reports how much it actually moved
+            euint64 requested = FHE.asEuint64(bidAmount);
+            FHE.allowTransient(requested, address(token));
+            bidAmount = FHE.asEuint32(token.transferFrom(msg.sender, address(this), requested));
+        }
+        
+        info.bidAmount = bidAmount;
+        info.deposit = deposit;
+        info.hasBid = true;
+        info.refunded = false;
+        
+        FHE.allowThis(bidAmount);
+        FHE.allow(bidAmount, msg.sender);
+        _allowAdmins(bidAmount);
+        return bidAmount;
+    }
+    
+    /// @notice Internal function folding a bid into the encrypted leader state
+    /// @param auctionId The ID of the auction
+    /// @param bidder The bidder who placed the bid
+    /// @param bidAmount The bidder's encrypted (already collateral-checked) bid
+    function _updateLeader(uint32 auctionId, address bidder, euint32 bidAmount) internal {
         // Update highest bid using encrypted comparison
         ebool isHigher = FHE.gt(bidAmount, auctions[auctionId].highestBid);
         
+        // Second-price auctions also track the runner-up: a new leader pushes the old highest
+        // bid down, otherwise the bid competes with the current second-highest
+        if (auctions[auctionId].auctionType == AuctionType.SecondPrice) {
+            auctions[auctionId].secondHighestBid = FHE.select(
+                isHigher,
+                auctions[auctionId].highestBid,
+                FHE.max(auctions[auctionId].secondHighestBid, bidAmount)
+            );
+            FHE.allowThis(auctions[auctionId].secondHighestBid);
+        }
+        
         // Conditionally update highest bid and bidder
         auctions[auctionId].highestBid = FHE.select(
             isHigher, 
@@ -181,77 +458,208 @@ contract SecretAuction is SepoliaConfig {
             auctions[auctionId].highestBid
         );
         
-        // Update highest bidder conditionally
-        // Note: In a production system, this could be done off-chain to maintain more privacy
-        auctions[auctionId].highestBidder = msg.sender; // Simplified for demo
+        // Track the leader under the same encrypted condition, so nobody learns who is winning
+        auctions[auctionId].highestBidder = FHE.select(
+            isHigher,
+            FHE.asEaddress(bidder),
+            auctions[auctionId].highestBidder
+        );
         
-        // Set permissions for the new bid
-        FHE.allowThis(bidders[auctionId][msg.sender].bidAmount);
-        FHE.allow(bidders[auctionId][msg.sender].bidAmount, msg.sender);
-        FHE.allow(bidders[auctionId][msg.sender].bidAmount, auctionHouse);
         FHE.allowThis(auctions[auctionId].highestBid);
+        FHE.allowThis(auctions[auctionId].highestBidder);
+    }
+    
+    /// @notice Enable anti-sniping soft-close on an auction (only seller, before the first bid)
+    /// @param auctionId The ID of the auction
+    /// @param window Bids placed this many seconds (or less) before the end extend the auction
+    /// @param extension How many seconds each such bid adds to the end time
+    /// @param maxEndTime The end time can never be pushed beyond this timestamp
+    function configureSoftClose(
+        uint32 auctionId,
+        uint256 window,
+        uint256 extension,
+        uint256 maxEndTime
+    ) external 
+        auctionExists(auctionId)
+        auctionActive(auctionId)
+    {
+        AuctionItem storage auction = auctions[auctionId];
+        require(msg.sender == auction.seller, "Only seller can configure soft-close");
+        require(auctionBidders[auctionId].length == 0, "Auction already has bids");
+        require(window > 0 && extension > 0, "Window and extension must be positive");
+        require(maxEndTime >= auction.endTime, "Max end time before end time");
+        require(maxEndTime - auction.endTime <= 7 days, "Extensions cannot exceed 7 days");
         
-        // Store the ETH sent with the bid
-        balances[msg.sender] += msg.value;
+        softCloses[auctionId] = SoftClose({
+            window: window,
+            extension: extension,
+            maxEndTime: maxEndTime
+        });
         
-        emit BidPlaced(auctionId, msg.sender);
+        emit SoftCloseConfigured(auctionId, window, extension, maxEndTime);
+    }
+    
+    /// @notice Rebuild the encrypted leader of an ended auction whose bids were updated or retracted
+    /// @param auctionId The ID of the auction
+    /// @param maxSteps How many bid entries to fold in this transaction
+    /// @dev Starts from zero and folds the current bids in bid order, so ties still go to the
+    ///      earlier bid. One step always fits in a transaction; call again until
+    ///      `leaderRebuildPending` is false, then `finalizeAuction`.
+    function rebuildLeader(uint32 auctionId, uint256 maxSteps) 
+        external 
+        auctionExists(auctionId)
+        auctionEnded(auctionId)
+        notFinalized(auctionId)
+    {
+        AuctionItem storage auction = auctions[auctionId];
+        require(
+            msg.sender == auction.seller || hasRole(OPERATOR_ROLE, msg.sender),
+            "Only seller or auction house can finalize"
+        );
+        require(leaderRebuildPending[auctionId], "No rebuild pending");
+        require(maxSteps > 0, "Must run at least one step");
+        
+        uint256 next = rebuiltBids[auctionId];
+        if (next == 0) {
+            auction.highestBid = FHE.asEuint32(0);
+            auction.secondHighestBid = FHE.asEuint32(0);
+            auction.highestBidder = FHE.asEaddress(address(0));
+            FHE.allowThis(auction.secondHighestBid);
+            FHE.allowThis(auction.highestBid);
+            FHE.allowThis(auction.highestBidder);
+        }
+        
+        address[] storage bidderList = auctionBidders[auctionId];
+        uint256 end = maxSteps < bidderList.length - next ? next + maxSteps : bidderList.length;
+        for (; next < end; next++) {
+            // Skip retracted bids and the stale entry of a bidder who retracted and bid again
+            address bidder = bidderList[next];
+            if (bidders[auctionId][bidder].hasBid && bidPositions[auctionId][bidder] == next + 1) {
+                _updateLeader(auctionId, bidder, bidders[auctionId][bidder].bidAmount);
+            }
+        }
+        
+        if (next == bidderList.length) {
+            leaderRebuildPending[auctionId] = false;
+            delete rebuiltBids[auctionId];
+        } else {
+            rebuiltBids[auctionId] = next;
+        }
     }
     
     /// @notice Finalize the auction and determine the winner
     /// @param auctionId The ID of the auction to finalize
-    /// @dev This function requires decryption of the winning bid amount
+    /// @dev Settlement is asynchronous: this requests decryption of the price to charge, the
+    ///      winner's address and the encrypted reserve check, then `settlementDecryptionCallback` pays out the real amounts
+    ///      If bids were updated or retracted, `rebuildLeader` has to complete first
     function finalizeAuction(uint32 auctionId) 
         external 
         auctionExists(auctionId)
         auctionEnded(auctionId)
         notFinalized(auctionId)
     {
+        AuctionItem storage auction = auctions[auctionId];
         require(
-            msg.sender == auctions[auctionId].seller || msg.sender == auctionHouse,
+            msg.sender == auction.seller || hasRole(OPERATOR_ROLE, msg.sender),
             "Only seller or auction house can finalize"
         );
+        require(!auction.settlementPending, "Settlement already requested");
+        require(!leaderRebuildPending[auctionId], "Leader rebuild pending");
         
-        auctions[auctionId].finalized = true;
+        if (auctionBidders[auctionId].length == 0) {
+            // No bids, nothing to settle
+            auction.finalized = true;
+            emit AuctionFinalized(auctionId, address(0), 0);
+            return;
+        }
         
-        // Check if there's a winner and if reserve price is met
-        address winner = auctions[auctionId].highestBidder;
+        // Reserve is met when the highest bid is at least the reserve price
+        ebool reserveMet = FHE.ge(auction.highestBid, auction.reservePrice);
         
-        if (winner != address(0)) {
-            // In a real implementation, you would decrypt the winning bid here
-            // For demonstration, we'll use a placeholder amount
-            uint256 winningAmount = 0; // This would be the decrypted winning bid
+        // First-price winners pay their bid; second-price winners pay the runner-up bid,
+        // raised to the reserve price if the runner-up alone would not meet it
+        euint32 price = auction.auctionType == AuctionType.SecondPrice
+            ? FHE.max(auction.secondHighestBid, auction.reservePrice)
+            : auction.highestBid;
+        
+        // Token auctions settle the amounts under encryption, so only the winner and the
+        // reserve check are decrypted
+        bytes32[] memory cts;
+        if (address(auction.paymentToken) == address(0)) {
+            cts = new bytes32[](3);
+            cts[0] = FHE.toBytes32(price);
+            cts[1] = FHE.toBytes32(auction.highestBidder);
+            cts[2] = FHE.toBytes32(reserveMet);
+        } else {
+            cts = new bytes32[](2);
+            cts[0] = FHE.toBytes32(auction.highestBidder);
+            cts[1] = FHE.toBytes32(reserveMet);
+        }
+        uint256 requestId = FHE.requestDecryption(cts, this.settlementDecryptionCallback.selector);
+        
+        auction.settlementPending = true;
+        settlementRequests[requestId] = auctionId;
+        
+        emit AuctionSettlementRequested(auctionId, requestId);
+    }
+    
+    /// @notice Decryption oracle callback that settles a finalized auction
+    /// @param requestId The ID returned by `FHE.requestDecryption`
+    /// @param cleartexts ABI-encoded decrypted values: (price, highestBidder, reserveMet), or
+    ///        (highestBidder, reserveMet) for token auctions
+    /// @param decryptionProof KMS signatures proving the decryption is authentic
+    /// @dev Credits the seller and platform fee if the reserve is met. Losing bidders (and the
+    ///      winner's unspent change) are not paid here but claim with `claimRefund`
+    function settlementDecryptionCallback(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory decryptionProof
+    ) external {
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+        
+        uint32 auctionId = settlementRequests[requestId];
+        AuctionItem storage auction = auctions[auctionId];
+        require(auction.settlementPending, "No settlement pending");
+        
+        auction.settlementPending = false;
+        auction.finalized = true;
+        delete settlementRequests[requestId];
+        
+        if (address(auction.paymentToken) != address(0)) {
+            (address tokenWinner, bool tokenReserveMet) = abi.decode(cleartexts, (address, bool));
+            _settleTokenAuction(auctionId, tokenWinner, tokenReserveMet);
+            return;
+        }
+        
+        (uint32 price, address winner, bool reserveMet) = abi.decode(
+            cleartexts,
+            (uint32, address, bool)
+        );
+        
+        // With a zero reserve and only zero bids no bidder ever took the lead, so there is no sale
+        if (reserveMet && winner != address(0)) {
+            uint256 winningAmount = uint256(price) * BID_UNIT;
+            auction.winner = winner;
             
-            // Check if reserve price is met (would require decryption)
-            // bool reserveMet = decryptedHighestBid >= decryptedReservePrice;
+            // Process payment to seller (minus platform fee)
+            uint256 platformFee = (winningAmount * platformFeePercent) / 10000;
+            uint256 sellerPayment = winningAmount - platformFee;
             
-            // For demo purposes, assume reserve is met
-            bool reserveMet = true;
+            // Move the price out of the winner's escrow; the rest stays claimable as change
+            // (the encrypted deposit cap guarantees deposit >= winningAmount)
+            bidders[auctionId][winner].deposit -= winningAmount;
+            totalEscrowed -= winningAmount;
             
-            if (reserveMet) {
-                // Process payment to seller (minus platform fee)
-                uint256 platformFee = (winningAmount * platformFeePercent) / 10000;
-                uint256 sellerPayment = winningAmount - platformFee;
-                
-                balances[auctions[auctionId].seller] += sellerPayment;
-                balances[auctionHouse] += platformFee;
-                
-                // Deduct winning bid from winner's balance
-                balances[winner] -= winningAmount;
-                
-                emit PaymentProcessed(auctionId, auctions[auctionId].seller, sellerPayment);
-                emit AuctionFinalized(auctionId, winner, winningAmount);
-            } else {
-                // Reserve not met, refund all bidders
-                _refundAllBidders(auctionId);
-                emit AuctionFinalized(auctionId, address(0), 0);
-            }
+            balances[auction.seller] += sellerPayment;
+            balances[owner] += platformFee;
+            totalWithdrawable += winningAmount;
+            
+            emit PaymentProcessed(auctionId, auction.seller, sellerPayment);
+            emit AuctionFinalized(auctionId, winner, winningAmount);
         } else {
-            // No bids, nothing to do
+            // No sale: every bidder claims their full deposit back
             emit AuctionFinalized(auctionId, address(0), 0);
         }
-        
-        // Process refunds for losing bidders
-        _processRefunds(auctionId, winner);
     }
     
     /// @notice Cancel an auction (only before it ends)
@@ -262,7 +670,7 @@ contract SecretAuction is SepoliaConfig {
         notFinalized(auctionId)
     {
         require(
-            msg.sender == auctions[auctionId].seller || msg.sender == auctionHouse,
+            msg.sender == auctions[auctionId].seller || hasRole(OPERATOR_ROLE, msg.sender),
             "Only seller or auction house can cancel"
         );
         require(block.timestamp <= auctions[auctionId].endTime, "Cannot cancel after auction ends");
@@ -270,9 +678,7 @@ contract SecretAuction is SepoliaConfig {
         auctions[auctionId].cancelled = true;
         auctions[auctionId].finalized = true;
         
-        // Refund all bidders
-        _refundAllBidders(auctionId);
-        
+        // Bidders reclaim their escrow with claimRefund
         emit AuctionCancelled(auctionId);
     }
     
@@ -282,10 +688,37 @@ contract SecretAuction is SepoliaConfig {
         require(amount > 0, "No balance to withdraw");
         
         balances[msg.sender] = 0;
+        totalWithdrawable -= amount;
         (bool success, ) = payable(msg.sender).call{value: amount}("");
         require(success, "Withdrawal failed");
     }
     
+    /// @notice Claim back the caller's escrow from a settled or cancelled auction
+    /// @param auctionId The ID of the auction
+    /// @dev Losing bidders get their whole deposit (or token escrow) back; an ETH winner gets
+    ///      the part of their deposit that exceeded the price. Funds come from this auction's
+    ///      escrow only and are sent straight to the caller.
+    function claimRefund(uint32 auctionId) external auctionExists(auctionId) {
+        require(auctions[auctionId].finalized, "Auction not settled");
+        BidderInfo storage info = bidders[auctionId][msg.sender];
+        require(info.hasBid && !info.refunded, "No refund to claim");
+        
+        _refundDeposit(auctionId, msg.sender);
+    }
+    
+    /// @notice Check that the contract's ETH balance equals total escrow plus withdrawable balances
+    /// @return holds True if every wei held is accounted for
+    /// @return escrowed ETH locked behind bids across all auctions
+    /// @return withdrawable ETH owed to sellers and the platform
+    /// @dev ETH force-sent to the contract (e.g. by selfdestruct) makes this report false
+    function checkEscrowInvariant() 
+        external 
+        view 
+        returns (bool holds, uint256 escrowed, uint256 withdrawable) 
+    {
+        return (address(this).balance == totalEscrowed + totalWithdrawable, totalEscrowed, totalWithdrawable);
+    }
+    
     /// @notice Get auction details
     /// @param auctionId The ID of the auction
     /// @return title The auction title
@@ -295,6 +728,7 @@ contract SecretAuction is SepoliaConfig {
     /// @return endTime When the auction ends
     /// @return finalized Whether the auction is finalized
     /// @return cancelled Whether the auction is cancelled
+    /// @return auctionType The pricing rule (first or second price)
     function getAuction(uint32 auctionId) 
         external 
         view 
@@ -306,7 +740,8 @@ contract SecretAuction is SepoliaConfig {
             uint256 startTime,
             uint256 endTime,
             bool finalized,
-            bool cancelled
+            bool cancelled,
+            AuctionType auctionType
         ) 
     {
         AuctionItem storage auction = auctions[auctionId];
@@ -317,7 +752,8 @@ contract SecretAuction is SepoliaConfig {
             auction.startTime,
             auction.endTime,
             auction.finalized,
-            auction.cancelled
+            auction.cancelled,
+            auction.auctionType
         );
     }
     
@@ -338,19 +774,33 @@ contract SecretAuction is SepoliaConfig {
     /// @notice Get current highest bid (encrypted)
     /// @param auctionId The ID of the auction
     /// @return highestBid The encrypted highest bid
-    /// @return highestBidder The address of the current highest bidder
+    /// @return highestBidder The encrypted address of the current highest bidder
     function getHighestBid(uint32 auctionId) 
         external 
         view 
         auctionExists(auctionId)
-        returns (euint32 highestBid, address highestBidder) 
+        returns (euint32 highestBid, eaddress highestBidder) 
     {
         return (auctions[auctionId].highestBid, auctions[auctionId].highestBidder);
     }
     
+    /// @notice Get the revealed winner of a settled auction
+    /// @param auctionId The ID of the auction
+    /// @return winner The winning bidder, or address(0) if there was no winner
+    function getWinner(uint32 auctionId) 
+        external 
+        view 
+        auctionExists(auctionId)
+        returns (address winner) 
+    {
+        require(auctions[auctionId].finalized, "Auction not finalized");
+        return auctions[auctionId].winner;
+    }
+    
     /// @notice Check if auction is currently active
     /// @param auctionId The ID of the auction
     /// @return active True if auction is currently accepting bids
+    /// @dev `endTime` already includes any soft-close extensions
     function isAuctionActive(uint32 auctionId) 
         external 
         view 
@@ -359,7 +809,8 @@ contract SecretAuction is SepoliaConfig {
     {
         return block.timestamp >= auctions[auctionId].startTime && 
                block.timestamp <= auctions[auctionId].endTime &&
-               !auctions[auctionId].cancelled;
+               !auctions[auctionId].cancelled &&
+               !auctions[auctionId].finalized;
     }
     
     /// @notice Get total number of auctions
@@ -375,34 +826,123 @@ contract SecretAuction is SepoliaConfig {
         platformFeePercent = newFeePercent;
     }
     
-    /// @notice Internal function to process refunds for losing bidders
+    /// @notice Let an owner or admin decrypt the reserve prices and highest bids of existing auctions (only owner)
+    /// @param account The owner or admin to share the handles with
+    /// @param fromId The first auction to share
+    /// @param toId The auction to stop before
+    /// @dev Call it in ranges small enough to fit in a block; the bids themselves are shared
+    ///      per auction with `shareBids`
+    function shareExistingHandles(address account, uint32 fromId, uint32 toId) external onlyOwner {
+        require(hasRole(ADMIN_ROLE, account), "Account is not an admin");
+        require(fromId <= toId && toId <= auctionCount, "Invalid range");
+        
+        for (uint32 id = fromId; id < toId; id++) {
+            FHE.allow(auctions[id].reservePrice, account);
+            FHE.allow(auctions[id].highestBid, account);
+        }
+    }
+    
+    /// @notice Let an owner or admin decrypt the bids already placed on an auction (only owner)
+    /// @param account The owner or admin to share the bids with
     /// @param auctionId The ID of the auction
-    /// @param winner The winning bidder (excluded from refunds)
-    function _processRefunds(uint32 auctionId, address winner) internal {
+    /// @param fromIndex The first entry of `auctionBidders` to share
+    /// @param toIndex The entry to stop before
+    function shareBids(address account, uint32 auctionId, uint256 fromIndex, uint256 toIndex) 
+        external 
+        onlyOwner 
+        auctionExists(auctionId) 
+    {
+        require(hasRole(ADMIN_ROLE, account), "Account is not an admin");
         address[] storage bidderList = auctionBidders[auctionId];
+        require(fromIndex <= toIndex && toIndex <= bidderList.length, "Invalid range");
         
-        for (uint256 i = 0; i < bidderList.length; i++) {
-            address bidder = bidderList[i];
-            if (bidder != winner && !bidders[auctionId][bidder].refunded) {
-                bidders[auctionId][bidder].refunded = true;
-                // Balance already stored when bid was placed
-                emit RefundProcessed(auctionId, bidder, balances[bidder]);
-            }
+        for (uint256 i = fromIndex; i < toIndex; i++) {
+            FHE.allow(bidders[auctionId][bidderList[i]].bidAmount, account);
         }
     }
     
-    /// @notice Internal function to refund all bidders (used for cancelled auctions)
+    /// @notice Internal function extending an auction when a bid lands inside its soft-close window
     /// @param auctionId The ID of the auction
-    function _refundAllBidders(uint32 auctionId) internal {
-        address[] storage bidderList = auctionBidders[auctionId];
+    function _applySoftClose(uint32 auctionId) internal {
+        SoftClose storage softClose = softCloses[auctionId];
+        AuctionItem storage auction = auctions[auctionId];
+        if (softClose.window == 0 || block.timestamp + softClose.window < auction.endTime) {
+            return;
+        }
         
-        for (uint256 i = 0; i < bidderList.length; i++) {
-            address bidder = bidderList[i];
-            if (!bidders[auctionId][bidder].refunded) {
-                bidders[auctionId][bidder].refunded = true;
-                // Balance already stored when bid was placed
-                emit RefundProcessed(auctionId, bidder, balances[bidder]);
-            }
+        uint256 newEndTime = auction.endTime + softClose.extension;
+        if (newEndTime > softClose.maxEndTime) {
+            newEndTime = softClose.maxEndTime;
+        }
+        if (newEndTime > auction.endTime) {
+            auction.endTime = newEndTime;
+            emit AuctionExtended(auctionId, newEndTime);
+        }
+    }
+    
+    /// @notice Internal function settling a token auction with encrypted transfers only
+    /// @param auctionId The ID of the auction
+    /// @param winner The decrypted highest bidder, address(0) if no bid ever took the lead
+    /// @param reserveMet Whether the highest bid met the reserve price
+    function _settleTokenAuction(uint32 auctionId, address winner, bool reserveMet) internal {
+        // No leader means every escrowed bid was zero: nothing to pay, bidders reclaim their escrow
+        if (!reserveMet || winner == address(0)) {
+            emit AuctionFinalized(auctionId, address(0), 0);
+            return;
+        }
+        
+        AuctionItem storage auction = auctions[auctionId];
+        auction.winner = winner;
+        
+        // Same pricing rule as ETH auctions, computed on the encrypted bids
+        euint64 price = FHE.asEuint64(
+            auction.auctionType == AuctionType.SecondPrice
+                ? FHE.max(auction.secondHighestBid, auction.reservePrice)
+                : auction.highestBid
+        );
+        euint64 platformFee = FHE.div(FHE.mul(price, uint64(platformFeePercent)), 10000);
+        
+        // The winner's escrow always covers the price, so the change cannot underflow
+        BidderInfo storage winnerInfo = bidders[auctionId][winner];
+        winnerInfo.refunded = true;
+        euint64 change = FHE.sub(FHE.asEuint64(winnerInfo.bidAmount), price);
+        
+        _payTokens(auction.paymentToken, auction.seller, FHE.sub(price, platformFee));
+        _payTokens(auction.paymentToken, owner, platformFee);
+        _payTokens(auction.paymentToken, winner, change);
+        
+        emit RefundProcessed(auctionId, winner, 0);
+        emit PaymentProcessed(auctionId, auction.seller, 0);
+        emit AuctionFinalized(auctionId, winner, 0);
+    }
+    
+    /// @notice Internal function sending an encrypted amount of the payment token out of escrow
+    /// @param token The payment token
+    /// @param to The recipient
+    /// @param amount The encrypted amount to send
+    function _payTokens(ConfidentialToken token, address to, euint64 amount) internal {
+        FHE.allowTransient(amount, address(token));
+        token.transfer(to, amount);
+    }
+    
+    /// @notice Internal function sending a bidder's escrowed deposit back, or returning their
+    ///         escrowed tokens in a token auction
+    /// @param auctionId The ID of the auction
+    /// @param bidder The bidder to refund
+    function _refundDeposit(uint32 auctionId, address bidder) internal {
+        BidderInfo storage info = bidders[auctionId][bidder];
+        uint256 amount = info.deposit;
+        info.refunded = true;
+        info.deposit = 0;
+        
+        ConfidentialToken token = auctions[auctionId].paymentToken;
+        if (address(token) != address(0)) {
+            _payTokens(token, bidder, FHE.asEuint64(info.bidAmount));
+        } else {
+            totalEscrowed -= amount;
+            (bool success, ) = payable(bidder).call{value: amount}("");
+            require(success, "Refund failed");
         }
+        emit RefundProcessed(auctionId, bidder, amount);
     }
 }
@@ -18,6 +18,7 @@ const deployHelloFHEVM: DeployFunction = async function (hre: HardhatRuntimeEnvi
   });
 
   console.log(`HelloFHEVM deployed to: ${deployment.address}`);
+  console.log("Encrypted counters: euint8, euint16, euint32 (main), euint64, euint128");
   console.log("HelloFHEVM deployment completed successfully!");
 };
 
@@ -0,0 +1,26 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployFunction } from "hardhat-deploy/types";
+
+const deployConfidentialToken: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployments, getNamedAccounts } = hre;
+  const { deploy } = deployments;
+  const { deployer } = await getNamedAccounts();
+
+  console.log("Deploying ConfidentialToken contract...");
+  console.log("Deployer:", deployer);
+  console.log("Network:", hre.network.name);
+
+  const deployment = await deploy("ConfidentialToken", {
+    from: deployer,
+    args: ["Confidential Token", "CTKN"], // Token name and symbol
+    log: true,
+    waitConfirmations: hre.network.name === "hardhat" ? 1 : 5,
+  });
+
+  console.log(`ConfidentialToken deployed to: ${deployment.address}`);
+  console.log("ConfidentialToken deployment completed successfully!");
+};
+
+deployConfidentialToken.tags = ["ConfidentialToken", "intermediate", "all"];
+
+export default deployConfidentialToken;
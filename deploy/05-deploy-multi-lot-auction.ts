@@ -0,0 +1,26 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployFunction } from "hardhat-deploy/types";
+
+const deployMultiLotAuction: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployments, getNamedAccounts } = hre;
+  const { deploy } = deployments;
+  const { deployer } = await getNamedAccounts();
+
+  console.log("Deploying MultiLotAuction contract...");
+  console.log("Deployer:", deployer);
+  console.log("Network:", hre.network.name);
+
+  const deployment = await deploy("MultiLotAuction", {
+    from: deployer,
+    args: [], // No constructor arguments
+    log: true,
+    waitConfirmations: hre.network.name === "hardhat" ? 1 : 5,
+  });
+
+  console.log(`MultiLotAuction deployed to: ${deployment.address}`);
+  console.log("MultiLotAuction deployment completed successfully!");
+};
+
+deployMultiLotAuction.tags = ["MultiLotAuction", "advanced", "all"];
+
+export default deployMultiLotAuction;
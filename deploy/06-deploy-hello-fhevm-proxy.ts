@@ -0,0 +1,41 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployFunction } from "hardhat-deploy/types";
+import { assertStorageLayoutCompatible } from "../utils/storageLayout";
+
+const deployHelloFHEVMProxy: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployments, getNamedAccounts } = hre;
+  const { deploy } = deployments;
+  const { deployer } = await getNamedAccounts();
+
+  console.log("Deploying upgradeable HelloFHEVM (transparent proxy)...");
+  console.log("Deployer:", deployer);
+  console.log("Network:", hre.network.name);
+
+  // Refuse an upgrade that would shift the encrypted handles stored behind the proxy
+  await assertStorageLayoutCompatible(hre, "HelloFHEVMProxy", "HelloFHEVM");
+
+  const deployment = await deploy("HelloFHEVMProxy", {
+    contract: "HelloFHEVM",
+    from: deployer,
+    proxy: {
+      proxyContract: "OpenZeppelinTransparentProxy",
+      // Runs once, when the proxy is first deployed; upgrades keep the existing state
+      execute: {
+        init: {
+          methodName: "initialize",
+          args: [],
+        },
+      },
+    },
+    log: true,
+    waitConfirmations: hre.network.name === "hardhat" ? 1 : 5,
+  });
+
+  console.log(`HelloFHEVMProxy deployed to: ${deployment.address}`);
+  console.log(`Implementation: ${deployment.implementation}`);
+  console.log("HelloFHEVM proxy deployment completed successfully!");
+};
+
+deployHelloFHEVMProxy.tags = ["HelloFHEVMProxy", "upgradeable"];
+
+export default deployHelloFHEVMProxy;
@@ -0,0 +1,41 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployFunction } from "hardhat-deploy/types";
+import { assertStorageLayoutCompatible } from "../utils/storageLayout";
+
+const deploySecretAuctionProxy: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployments, getNamedAccounts } = hre;
+  const { deploy } = deployments;
+  const { deployer } = await getNamedAccounts();
+
+  console.log("Deploying upgradeable SecretAuction (transparent proxy)...");
+  console.log("Deployer:", deployer);
+  console.log("Network:", hre.network.name);
+
+  // Refuse an upgrade that would shift the encrypted handles stored behind the proxy
+  await assertStorageLayoutCompatible(hre, "SecretAuctionProxy", "SecretAuction");
+
+  const deployment = await deploy("SecretAuctionProxy", {
+    contract: "SecretAuction",
+    from: deployer,
+    proxy: {
+      proxyContract: "OpenZeppelinTransparentProxy",
+      // Runs once, when the proxy is first deployed; upgrades keep the existing state
+      execute: {
+        init: {
+          methodName: "initialize",
+          args: [],
+        },
+      },
+    },
+    log: true,
+    waitConfirmations: hre.network.name === "hardhat" ? 1 : 5,
+  });
+
+  console.log(`SecretAuctionProxy deployed to: ${deployment.address}`);
+  console.log(`Implementation: ${deployment.implementation}`);
+  console.log("SecretAuction proxy deployment completed successfully!");
+};
+
+deploySecretAuctionProxy.tags = ["SecretAuctionProxy", "upgradeable"];
+
+export default deploySecretAuctionProxy;
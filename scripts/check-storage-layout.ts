@@ -0,0 +1,34 @@
+import hre from "hardhat";
+import { assertStorageLayoutCompatible } from "../utils/storageLayout";
+
+// Proxy deployment name => implementation contract (see deploy/06-08)
+const UPGRADEABLE = [
+  ["HelloFHEVMProxy", "HelloFHEVM"],
+  ["PrivateVotingProxy", "PrivateVoting"],
+  ["SecretAuctionProxy", "SecretAuction"],
+];
+
+// Check, before running the upgrade, that the current contracts can replace the deployed implementations
+async function main() {
+  await hre.run("compile");
+
+  let failed = false;
+  for (const [deploymentName, contractName] of UPGRADEABLE) {
+    try {
+      await assertStorageLayoutCompatible(hre, deploymentName, contractName);
+      console.log(`${deploymentName}: storage layout compatible`);
+    } catch (error) {
+      console.error((error as Error).message);
+      failed = true;
+    }
+  }
+
+  if (failed) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,176 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import type { Contract } from "ethers";
+import { Signer, connectAs, decryptEuint } from "./helpers";
+
+describe("ConfidentialToken", function () {
+  let owner: Signer;
+  let alice: Signer;
+  let bob: Signer;
+  let carol: Signer;
+  let token: Contract;
+  let address: string;
+
+  before(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+    [owner, alice, bob, carol] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    token = await ethers.deployContract("ConfidentialToken", ["Bid Token", "BID"]);
+    address = await token.getAddress();
+  });
+
+  async function encrypt64(signer: Signer, amount: number) {
+    return fhevm.createEncryptedInput(address, signer.address).add64(amount).encrypt();
+  }
+
+  async function transfer(from: Signer, to: Signer, amount: number) {
+    const input = await encrypt64(from, amount);
+    return connectAs(token, from)["transfer(address,bytes32,bytes)"](to.address, input.handles[0], input.inputProof);
+  }
+
+  async function approve(holder: Signer, spender: Signer, amount: number) {
+    const input = await encrypt64(holder, amount);
+    return connectAs(token, holder)["approve(address,bytes32,bytes)"](
+      spender.address,
+      input.handles[0],
+      input.inputProof,
+    );
+  }
+
+  async function transferFrom(spender: Signer, from: Signer, to: Signer, amount: number) {
+    const input = await encrypt64(spender, amount);
+    return connectAs(token, spender)["transferFrom(address,address,bytes32,bytes)"](
+      from.address,
+      to.address,
+      input.handles[0],
+      input.inputProof,
+    );
+  }
+
+  async function balanceOf(holder: Signer, signer: Signer = holder): Promise<bigint> {
+    return decryptEuint(FhevmType.euint64, await token.balanceOf(holder.address), address, signer);
+  }
+
+  async function allowanceOf(holder: Signer, spender: Signer, signer: Signer = holder): Promise<bigint> {
+    return decryptEuint(FhevmType.euint64, await token.allowance(holder.address, spender.address), address, signer);
+  }
+
+  describe("deployment", function () {
+    it("sets the metadata and makes the deployer owner", async function () {
+      expect(await token.name()).to.equal("Bid Token");
+      expect(await token.symbol()).to.equal("BID");
+      expect(await token.decimals()).to.equal(6);
+      expect(await token.owner()).to.equal(owner.address);
+      expect(await token.totalSupply()).to.equal(0);
+    });
+  });
+
+  describe("minting", function () {
+    it("is restricted to the owner", async function () {
+      await expect(connectAs(token, alice).mint(alice.address, 1000)).to.be.revertedWith(
+        "Only owner can perform this action",
+      );
+      await expect(token.mint(ethers.ZeroAddress, 1000)).to.be.revertedWith("Invalid recipient address");
+    });
+
+    it("adds to the public total supply and the encrypted balance", async function () {
+      await expect(token.mint(alice.address, 1000))
+        .to.emit(token, "Mint")
+        .withArgs(alice.address, 1000)
+        .and.to.emit(token, "Transfer")
+        .withArgs(ethers.ZeroAddress, alice.address);
+      await token.mint(alice.address, 500);
+
+      expect(await token.totalSupply()).to.equal(1500);
+      expect(await balanceOf(alice)).to.equal(1500);
+    });
+  });
+
+  describe("transfers", function () {
+    beforeEach(async function () {
+      await token.mint(alice.address, 1000);
+    });
+
+    it("moves an encrypted amount that only the holders can decrypt", async function () {
+      await expect(transfer(alice, bob, 300)).to.emit(token, "Transfer").withArgs(alice.address, bob.address);
+
+      expect(await balanceOf(alice)).to.equal(700);
+      expect(await balanceOf(bob)).to.equal(300);
+      await expect(balanceOf(alice, bob)).to.be.rejected;
+      await expect(balanceOf(bob, owner)).to.be.rejected;
+    });
+
+    it("moves nothing instead of reverting when the balance is too small", async function () {
+      await expect(transfer(alice, bob, 1001)).to.emit(token, "Transfer").withArgs(alice.address, bob.address);
+
+      expect(await balanceOf(alice)).to.equal(1000);
+      expect(await balanceOf(bob)).to.equal(0);
+      expect(await token.totalSupply()).to.equal(1000);
+    });
+
+    it("rejects the zero address and amounts the sender may not use", async function () {
+      await expect(transfer(alice, { address: ethers.ZeroAddress } as Signer, 1)).to.be.revertedWith(
+        "Invalid recipient address",
+      );
+
+      const aliceBalance = await token.balanceOf(alice.address);
+      await expect(connectAs(token, bob)["transfer(address,bytes32)"](bob.address, aliceBalance)).to.be.revertedWith(
+        "Sender cannot use this amount",
+      );
+    });
+  });
+
+  describe("allowances", function () {
+    beforeEach(async function () {
+      await token.mint(alice.address, 1000);
+    });
+
+    it("shares the allowance with the holder and the spender", async function () {
+      await expect(approve(alice, bob, 400)).to.emit(token, "Approval").withArgs(alice.address, bob.address);
+
+      expect(await allowanceOf(alice, bob)).to.equal(400);
+      expect(await allowanceOf(alice, bob, bob)).to.equal(400);
+      await expect(allowanceOf(alice, bob, carol)).to.be.rejected;
+    });
+
+    it("spends only what was actually transferred", async function () {
+      await approve(alice, bob, 400);
+
+      await transferFrom(bob, alice, carol, 150);
+      expect(await balanceOf(alice)).to.equal(850);
+      expect(await balanceOf(carol)).to.equal(150);
+      expect(await allowanceOf(alice, bob)).to.equal(250);
+
+      // Above the remaining allowance: nothing moves and nothing is spent
+      await transferFrom(bob, alice, carol, 300);
+      expect(await balanceOf(carol)).to.equal(150);
+      expect(await allowanceOf(alice, bob)).to.equal(250);
+    });
+
+    it("spends nothing when the holder's balance is too small", async function () {
+      await approve(alice, bob, 5000);
+
+      await transferFrom(bob, alice, carol, 2000);
+      expect(await balanceOf(alice)).to.equal(1000);
+      expect(await balanceOf(carol)).to.equal(0);
+      expect(await allowanceOf(alice, bob)).to.equal(5000);
+    });
+
+    it("moves nothing without an allowance", async function () {
+      await transferFrom(bob, alice, bob, 100);
+      expect(await balanceOf(alice)).to.equal(1000);
+      expect(await balanceOf(bob)).to.equal(0);
+    });
+
+    it("rejects the zero address as spender", async function () {
+      await expect(approve(alice, { address: ethers.ZeroAddress } as Signer, 1)).to.be.revertedWith(
+        "Invalid spender address",
+      );
+    });
+  });
+});
@@ -0,0 +1,495 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import type { Contract } from "ethers";
+import {
+  Signer,
+  connectAs,
+  decrypt32,
+  decryptBool,
+  decryptEuint,
+  encrypt32,
+  eventArgs,
+} from "./helpers";
+
+const MAX_UINT32 = 4294967295;
+
+describe("HelloFHEVM", function () {
+  let owner: Signer;
+  let admin: Signer;
+  let operator: Signer;
+  let viewer: Signer;
+  let alice: Signer;
+  let bob: Signer;
+  let counter: Contract;
+  let address: string;
+  let ADMIN_ROLE: string;
+  let OPERATOR_ROLE: string;
+  let OWNER_ROLE: string;
+
+  before(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+    [owner, admin, operator, viewer, alice, bob] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    counter = await ethers.deployContract("HelloFHEVM");
+    address = await counter.getAddress();
+    ADMIN_ROLE = await counter.ADMIN_ROLE();
+    OPERATOR_ROLE = await counter.OPERATOR_ROLE();
+    OWNER_ROLE = await counter.OWNER_ROLE();
+  });
+
+  // Run a counter operation that takes one encrypted 32-bit operand
+  async function withInput(method: string, value: number, signer: Signer = owner) {
+    const input = await encrypt32(address, signer, value);
+    return connectAs(counter, signer)[method](input.handles[0], input.inputProof);
+  }
+
+  async function counterValue(signer: Signer = owner): Promise<bigint> {
+    return decrypt32(await counter.getCounter(), address, signer);
+  }
+
+  async function setCounter(value: number) {
+    await counter.reset();
+    await withInput("add", value);
+  }
+
+  describe("deployment", function () {
+    it("starts every counter at encrypted zero", async function () {
+      expect(await counterValue()).to.equal(0);
+      expect(await decryptEuint(FhevmType.euint8, await counter.getCounter8(), address, owner)).to.equal(0);
+      expect(await decryptEuint(FhevmType.euint16, await counter.getCounter16(), address, owner)).to.equal(0);
+      expect(await decryptEuint(FhevmType.euint64, await counter.getCounter64(), address, owner)).to.equal(0);
+      expect(await decryptEuint(FhevmType.euint128, await counter.getCounter128(), address, owner)).to.equal(0);
+      expect(await decrypt32(await counter.getAggregate(), address, owner)).to.equal(0);
+    });
+
+    it("makes the deployer owner and cannot be initialized again", async function () {
+      expect(await counter.owner()).to.equal(owner.address);
+      expect(await counter.saturatingMode()).to.equal(false);
+      await expect(connectAs(counter, alice).initialize()).to.be.revertedWith("Already initialized");
+    });
+  });
+
+  describe("arithmetic", function () {
+    it("adds, subtracts and multiplies encrypted values", async function () {
+      await expect(withInput("add", 5)).to.emit(counter, "CounterUpdated").withArgs(owner.address, "add");
+      expect(await counterValue()).to.equal(5);
+
+      await withInput("subtract", 2);
+      expect(await counterValue()).to.equal(3);
+
+      await withInput("multiply", 4);
+      expect(await counterValue()).to.equal(12);
+    });
+
+    it("increments and decrements by one", async function () {
+      await counter.increment();
+      await counter.increment();
+      await counter.decrement();
+      expect(await counterValue()).to.equal(1);
+    });
+
+    it("wraps around without saturating mode", async function () {
+      await counter.decrement();
+      expect(await counterValue()).to.equal(MAX_UINT32);
+
+      await counter.increment();
+      expect(await counterValue()).to.equal(0);
+    });
+
+    it("divides and takes the remainder by a plaintext divisor", async function () {
+      await setCounter(17);
+      await counter.divide(5);
+      expect(await counterValue()).to.equal(3);
+
+      await setCounter(17);
+      await counter.remainder(5);
+      expect(await counterValue()).to.equal(2);
+    });
+
+    it("rejects a zero divisor", async function () {
+      await expect(counter.divide(0)).to.be.revertedWith("Cannot divide by zero");
+      await expect(counter.remainder(0)).to.be.revertedWith("Cannot divide by zero");
+    });
+
+    it("negates the counter modulo 2^32", async function () {
+      await setCounter(1);
+      await counter.negate();
+      expect(await counterValue()).to.equal(MAX_UINT32);
+    });
+  });
+
+  describe("bitwise operations", function () {
+    beforeEach(async function () {
+      await setCounter(0b1100);
+    });
+
+    it("combines the counter with encrypted masks", async function () {
+      await withInput("bitwiseAnd", 0b1010);
+      expect(await counterValue()).to.equal(0b1000);
+
+      await withInput("bitwiseOr", 0b0011);
+      expect(await counterValue()).to.equal(0b1011);
+
+      await withInput("bitwiseXor", 0b1111);
+      expect(await counterValue()).to.equal(0b0100);
+    });
+
+    it("shifts and rotates by a plaintext number of bits", async function () {
+      await counter.shiftLeft(2);
+      expect(await counterValue()).to.equal(0b110000);
+
+      await counter.shiftRight(4);
+      expect(await counterValue()).to.equal(0b11);
+
+      await counter.rotateRight(1);
+      expect(await counterValue()).to.equal(0x80000001);
+
+      await counter.rotateLeft(1);
+      expect(await counterValue()).to.equal(0b11);
+    });
+  });
+
+  describe("comparisons", function () {
+    beforeEach(async function () {
+      await setCounter(10);
+      await counter.grantPermission(viewer.address);
+    });
+
+    it("returns an encrypted comparison result to the caller", async function () {
+      let args = await eventArgs(counter, await withInput("isGreaterThan", 5, viewer), "ResultComputed");
+      expect(args.operation).to.equal("gt");
+      expect(await decrypt32(args.result, address, viewer)).to.equal(1);
+
+      args = await eventArgs(counter, await withInput("isGreaterThan", 10, viewer), "ResultComputed");
+      expect(await decrypt32(args.result, address, viewer)).to.equal(0);
+    });
+
+    it("refuses comparisons to revoked viewers and outsiders", async function () {
+      const message = "Only viewers and admins can read the counter";
+      await counter.revokePermission(viewer.address);
+      await expect(withInput("isGreaterThan", 5, viewer)).to.be.revertedWith(message);
+      await expect(withInput("min", 0xffffffff, viewer)).to.be.revertedWith(message);
+      await expect(withInput("min", 0xffffffff, bob)).to.be.revertedWith(message);
+      await expect(withInput("max", 0, viewer)).to.be.revertedWith(message);
+      await expect(withInput("max", 0, alice)).to.be.revertedWith(message);
+
+      await counter.grantRole(ADMIN_ROLE, admin.address);
+      await withInput("min", 0xffffffff, admin);
+    });
+
+    it("computes the encrypted minimum and maximum", async function () {
+      const tx = await withInput("min", 7, viewer);
+      expect(await decrypt32((await eventArgs(counter, tx, "ResultComputed")).result, address, viewer)).to.equal(7);
+
+      const maxTx = await withInput("max", 7, viewer);
+      const args = await eventArgs(counter, maxTx, "ResultComputed");
+      expect(args.operation).to.equal("max");
+      expect(await decrypt32(args.result, address, viewer)).to.equal(10);
+    });
+
+    it("does not let anyone else decrypt the result", async function () {
+      const tx = await withInput("max", 7, viewer);
+      const args = await eventArgs(counter, tx, "ResultComputed");
+      await expect(decrypt32(args.result, address, bob)).to.be.rejected;
+    });
+  });
+
+  describe("randomness", function () {
+    it("replaces the counter with a random value everyone allowed sees the same way", async function () {
+      await counter.grantPermission(viewer.address);
+      await expect(counter.randomize()).to.emit(counter, "CounterUpdated").withArgs(owner.address, "randomize");
+
+      const value = await counterValue();
+      expect(value).to.be.lte(MAX_UINT32);
+      expect(await counterValue(viewer)).to.equal(value);
+    });
+
+    it("adds a random value, clamping it in saturating mode", async function () {
+      await setCounter(MAX_UINT32);
+      await counter.setSaturatingMode(true);
+      await counter.addRandom();
+
+      // Any non-zero random value overflows; a zero one leaves the counter unchanged
+      expect(await counterValue()).to.equal(MAX_UINT32);
+    });
+  });
+
+  describe("saturating mode", function () {
+    it("can only be toggled by admins", async function () {
+      await expect(connectAs(counter, alice).setSaturatingMode(true)).to.be.revertedWith(
+        "Only admin can change arithmetic mode",
+      );
+
+      await counter.grantRole(ADMIN_ROLE, admin.address);
+      await expect(connectAs(counter, admin).setSaturatingMode(true))
+        .to.emit(counter, "SaturatingModeToggled")
+        .withArgs(true);
+      expect(await counter.saturatingMode()).to.equal(true);
+    });
+
+    it("clamps overflowing additions and flags them for the caller", async function () {
+      await setCounter(10);
+      await counter.setSaturatingMode(true);
+
+      await withInput("add", MAX_UINT32, alice);
+      expect(await counterValue()).to.equal(MAX_UINT32);
+      expect(await decryptBool(await counter.getLastOpFailed(), address, alice)).to.equal(true);
+    });
+
+    it("clamps underflowing subtractions at zero", async function () {
+      await setCounter(3);
+      await counter.setSaturatingMode(true);
+
+      await withInput("subtract", 5);
+      expect(await counterValue()).to.equal(0);
+      expect(await decryptBool(await counter.getLastOpFailed(), address, owner)).to.equal(true);
+
+      await counter.decrement();
+      expect(await counterValue()).to.equal(0);
+    });
+
+    it("clamps overflowing multiplications and clears the flag on success", async function () {
+      await setCounter(70000);
+      await counter.setSaturatingMode(true);
+
+      await withInput("multiply", 70000);
+      expect(await counterValue()).to.equal(MAX_UINT32);
+      expect(await decryptBool(await counter.getLastOpFailed(), address, owner)).to.equal(true);
+
+      await setCounter(6);
+      await withInput("multiply", 7);
+      expect(await counterValue()).to.equal(42);
+      expect(await decryptBool(await counter.getLastOpFailed(), address, owner)).to.equal(false);
+    });
+  });
+
+  describe("personal counters", function () {
+    it("keeps one counter per user and an aggregate for the owner", async function () {
+      await expect(withInput("addToMyCounter", 7, alice))
+        .to.emit(counter, "PersonalCounterUpdated")
+        .withArgs(alice.address, "add");
+      await connectAs(counter, alice).incrementMyCounter();
+      await withInput("addToMyCounter", 2, bob);
+
+      expect(await decrypt32(await counter.getUserCounter(alice.address), address, alice)).to.equal(8);
+      expect(await decrypt32(await counter.getUserCounter(bob.address), address, bob)).to.equal(2);
+      expect(await decrypt32(await counter.getAggregate(), address, owner)).to.equal(10);
+    });
+
+    it("does not let other users decrypt a personal counter", async function () {
+      await withInput("addToMyCounter", 7, alice);
+      await expect(decrypt32(await counter.getUserCounter(alice.address), address, bob)).to.be.rejected;
+    });
+  });
+
+  describe("viewers", function () {
+    it("lets admins grant and revoke decryption rights", async function () {
+      await expect(connectAs(counter, alice).grantPermission(viewer.address)).to.be.revertedWith(
+        "Only admin can grant permissions",
+      );
+
+      await expect(counter.grantPermission(viewer.address))
+        .to.emit(counter, "PermissionGranted")
+        .withArgs(viewer.address);
+      expect(await counter.isViewer(viewer.address)).to.equal(true);
+      expect(await counter.listViewers()).to.deep.equal([viewer.address]);
+
+      await counter.increment();
+      expect(await counterValue(viewer)).to.equal(1);
+
+      await expect(connectAs(counter, alice).revokePermission(viewer.address)).to.be.revertedWith(
+        "Only admin can revoke permissions",
+      );
+      await expect(counter.revokePermission(viewer.address))
+        .to.emit(counter, "PermissionRevoked")
+        .withArgs(viewer.address);
+      expect(await counter.isViewer(viewer.address)).to.equal(false);
+      expect(await counter.listViewers()).to.deep.equal([]);
+
+      // The next counter handle is no longer shared with the revoked viewer
+      await counter.increment();
+      await expect(counterValue(viewer)).to.be.rejected;
+    });
+
+    it("validates the viewer set", async function () {
+      await expect(counter.grantPermission(ethers.ZeroAddress)).to.be.revertedWith("Invalid viewer address");
+      await counter.grantPermission(viewer.address);
+      await expect(counter.grantPermission(viewer.address)).to.be.revertedWith("Already a viewer");
+      await expect(counter.revokePermission(alice.address)).to.be.revertedWith("Not a viewer");
+
+      const maxViewers = Number(await counter.MAX_VIEWERS());
+      for (let i = 1; i < maxViewers; i++) {
+        await counter.grantPermission(ethers.Wallet.createRandom().address);
+      }
+      await expect(counter.grantPermission(alice.address)).to.be.revertedWith("Too many viewers");
+    });
+
+    it("does not let anyone else decrypt the counter", async function () {
+      await counter.increment();
+      await expect(counterValue(alice)).to.be.rejected;
+    });
+  });
+
+  describe("roles", function () {
+    it("only lets the owner grant and revoke roles", async function () {
+      await expect(connectAs(counter, alice).grantRole(ADMIN_ROLE, alice.address)).to.be.revertedWith(
+        "Only owner can perform this action",
+      );
+      await expect(counter.grantRole(OWNER_ROLE, alice.address)).to.be.revertedWith("Unknown role");
+      await expect(counter.grantRole(ADMIN_ROLE, ethers.ZeroAddress)).to.be.revertedWith("Invalid account address");
+
+      await expect(counter.grantRole(ADMIN_ROLE, admin.address))
+        .to.emit(counter, "RoleGranted")
+        .withArgs(ADMIN_ROLE, admin.address, owner.address);
+      await expect(counter.grantRole(ADMIN_ROLE, admin.address)).to.be.revertedWith("Account already has role");
+      expect(await counter.getRoleMembers(ADMIN_ROLE)).to.deep.equal([admin.address]);
+
+      await expect(connectAs(counter, alice).revokeRole(ADMIN_ROLE, admin.address)).to.be.revertedWith(
+        "Only owner can perform this action",
+      );
+      await expect(counter.revokeRole(ADMIN_ROLE, admin.address))
+        .to.emit(counter, "RoleRevoked")
+        .withArgs(ADMIN_ROLE, admin.address, owner.address);
+      await expect(counter.revokeRole(ADMIN_ROLE, admin.address)).to.be.revertedWith("Account does not have role");
+      expect(await counter.getRoleMembers(ADMIN_ROLE)).to.deep.equal([]);
+    });
+
+    it("treats roles hierarchically", async function () {
+      await counter.grantRole(ADMIN_ROLE, admin.address);
+      await counter.grantRole(OPERATOR_ROLE, operator.address);
+
+      expect(await counter.hasRole(OPERATOR_ROLE, owner.address)).to.equal(true);
+      expect(await counter.hasRole(OPERATOR_ROLE, admin.address)).to.equal(true);
+      expect(await counter.hasRole(ADMIN_ROLE, operator.address)).to.equal(false);
+      expect(await counter.hasRole(OPERATOR_ROLE, alice.address)).to.equal(false);
+    });
+
+    it("only lets operators reset the counter", async function () {
+      await counter.increment();
+      await expect(connectAs(counter, alice).reset()).to.be.revertedWith("Only operator can reset");
+
+      await counter.grantRole(OPERATOR_ROLE, operator.address);
+      await expect(connectAs(counter, operator).reset()).to.emit(counter, "CounterReset").withArgs(operator.address);
+      expect(await counterValue()).to.equal(0);
+    });
+
+    it("shares existing counters with new admins", async function () {
+      await counter.increment();
+      await withInput("addToMyCounter", 4, alice);
+
+      await counter.grantRole(ADMIN_ROLE, admin.address);
+      expect(await counterValue(admin)).to.equal(1);
+      expect(await decrypt32(await counter.getAggregate(), address, admin)).to.equal(4);
+    });
+
+    it("transfers ownership in two steps", async function () {
+      await expect(counter.transferOwnership(ethers.ZeroAddress)).to.be.revertedWith("Invalid owner address");
+      await expect(connectAs(counter, alice).transferOwnership(alice.address)).to.be.revertedWith(
+        "Only owner can perform this action",
+      );
+
+      await counter.increment();
+      await expect(counter.transferOwnership(alice.address))
+        .to.emit(counter, "OwnershipTransferStarted")
+        .withArgs(owner.address, alice.address);
+      expect(await counter.pendingOwner()).to.equal(alice.address);
+
+      await expect(connectAs(counter, bob).acceptOwnership()).to.be.revertedWith(
+        "Only pending owner can accept ownership",
+      );
+      await expect(connectAs(counter, alice).acceptOwnership())
+        .to.emit(counter, "OwnershipTransferred")
+        .withArgs(owner.address, alice.address);
+
+      expect(await counter.owner()).to.equal(alice.address);
+      expect(await counter.pendingOwner()).to.equal(ethers.ZeroAddress);
+      expect(await counterValue(alice)).to.equal(1);
+    });
+  });
+
+  describe("counter widths", function () {
+    it("wraps each counter at its own bit size", async function () {
+      const input8 = await fhevm.createEncryptedInput(address, owner.address).add8(250).encrypt();
+      await counter.addToCounter8(input8.handles[0], input8.inputProof);
+      await counter.addToCounter8(input8.handles[0], input8.inputProof);
+      expect(await decryptEuint(FhevmType.euint8, await counter.getCounter8(), address, owner)).to.equal(244);
+
+      const input16 = await fhevm.createEncryptedInput(address, owner.address).add16(65535).encrypt();
+      await counter.addToCounter16(input16.handles[0], input16.inputProof);
+      await counter.addToCounter16(input16.handles[0], input16.inputProof);
+      expect(await decryptEuint(FhevmType.euint16, await counter.getCounter16(), address, owner)).to.equal(65534);
+
+      const input64 = await fhevm.createEncryptedInput(address, owner.address).add64(MAX_UINT32).encrypt();
+      await counter.addToCounter64(input64.handles[0], input64.inputProof);
+      await counter.addToCounter64(input64.handles[0], input64.inputProof);
+      expect(await decryptEuint(FhevmType.euint64, await counter.getCounter64(), address, owner)).to.equal(
+        BigInt(MAX_UINT32) * BigInt(2),
+      );
+
+      const big = BigInt("18446744073709551616"); // 2^64
+      const input128 = await fhevm.createEncryptedInput(address, owner.address).add128(big).encrypt();
+      await expect(counter.addToCounter128(input128.handles[0], input128.inputProof))
+        .to.emit(counter, "CounterUpdated")
+        .withArgs(owner.address, "add128");
+      expect(await decryptEuint(FhevmType.euint128, await counter.getCounter128(), address, owner)).to.equal(big);
+    });
+
+    it("casts the 32-bit counter to other widths", async function () {
+      await setCounter(300);
+
+      await expect(counter.castCounter(8)).to.emit(counter, "CounterCast").withArgs(owner.address, 32, 8);
+      expect(await decryptEuint(FhevmType.euint8, await counter.getCounter8(), address, owner)).to.equal(44);
+
+      await counter.castCounter(16);
+      expect(await decryptEuint(FhevmType.euint16, await counter.getCounter16(), address, owner)).to.equal(300);
+
+      await counter.castCounter(64);
+      expect(await decryptEuint(FhevmType.euint64, await counter.getCounter64(), address, owner)).to.equal(300);
+
+      await counter.castCounter(128);
+      expect(await decryptEuint(FhevmType.euint128, await counter.getCounter128(), address, owner)).to.equal(300);
+
+      await expect(counter.castCounter(32)).to.be.revertedWith("Unsupported width");
+    });
+
+    it("loads the 32-bit counter from other widths, keeping the low bits", async function () {
+      const input = await fhevm
+        .createEncryptedInput(address, owner.address)
+        .add8(7)
+        .add16(1000)
+        .add64(BigInt("4294967301")) // 2^32 + 5
+        .add128(BigInt("18446744073709551617")) // 2^64 + 1
+        .encrypt();
+      await counter.addToCounter8(input.handles[0], input.inputProof);
+      await counter.addToCounter16(input.handles[1], input.inputProof);
+      await counter.addToCounter64(input.handles[2], input.inputProof);
+      await counter.addToCounter128(input.handles[3], input.inputProof);
+
+      await expect(counter.loadCounterFrom(8)).to.emit(counter, "CounterCast").withArgs(owner.address, 8, 32);
+      expect(await counterValue()).to.equal(7);
+
+      await counter.loadCounterFrom(16);
+      expect(await counterValue()).to.equal(1000);
+
+      await counter.loadCounterFrom(64);
+      expect(await counterValue()).to.equal(5);
+
+      await counter.loadCounterFrom(128);
+      expect(await counterValue()).to.equal(1);
+
+      await expect(counter.loadCounterFrom(32)).to.be.revertedWith("Unsupported width");
+    });
+
+    it("shares every width with viewers", async function () {
+      await counter.grantPermission(viewer.address);
+      await setCounter(9);
+      await counter.castCounter(64);
+      expect(await decryptEuint(FhevmType.euint64, await counter.getCounter64(), address, viewer)).to.equal(9);
+    });
+  });
+});
@@ -0,0 +1,289 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import type { Contract } from "ethers";
+import { Signer, connectAs, decrypt32, decryptEuint, increaseTime } from "./helpers";
+
+const DAY = 24 * 60 * 60;
+
+describe("MultiLotAuction", function () {
+  let owner: Signer;
+  let seller: Signer;
+  let operator: Signer;
+  let alice: Signer;
+  let bob: Signer;
+  let carol: Signer;
+  let dave: Signer;
+  let lots: Contract;
+  let address: string;
+  let token: Contract;
+  let tokenAddress: string;
+  let bond: bigint;
+
+  before(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+    [owner, seller, operator, alice, bob, carol, dave] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    lots = await ethers.deployContract("MultiLotAuction");
+    address = await lots.getAddress();
+    bond = await lots.LOT_BID_BOND();
+    await lots.grantRole(await lots.OPERATOR_ROLE(), operator.address);
+
+    token = await ethers.deployContract("ConfidentialToken", ["Bid Token", "BID"]);
+    tokenAddress = await token.getAddress();
+    for (const bidder of [alice, bob, carol, dave]) {
+      await token.mint(bidder.address, 1000);
+      await approve(bidder, 1000);
+    }
+  });
+
+  async function approve(holder: Signer, amount: number) {
+    const input = await fhevm.createEncryptedInput(tokenAddress, holder.address).add64(amount).encrypt();
+    await connectAs(token, holder)["approve(address,bytes32,bytes)"](address, input.handles[0], input.inputProof);
+  }
+
+  async function tokenBalance(holder: Signer): Promise<bigint> {
+    return decryptEuint(FhevmType.euint64, await token.balanceOf(holder.address), tokenAddress, holder);
+  }
+
+  async function createLotAuction(totalUnits = 10): Promise<number> {
+    await connectAs(lots, seller).createLotAuction("Concert tickets", totalUnits, DAY, tokenAddress);
+    return Number(await lots.lotAuctionCount()) - 1;
+  }
+
+  async function lotBid(bidder: Signer, auctionId: number, quantity: number, unitPrice: number) {
+    const input = await fhevm.createEncryptedInput(address, bidder.address).add32(quantity).add32(unitPrice).encrypt();
+    return connectAs(lots, bidder).placeLotBid(auctionId, input.handles[0], input.handles[1], input.inputProof, {
+      value: bond,
+    });
+  }
+
+  // One step per transaction, so every call stays within a single step's HCU budget
+  async function endAndFinalize(auctionId: number) {
+    await increaseTime(DAY + 1);
+    while (!(await lots.lotAuctions(auctionId)).finalized) {
+      await connectAs(lots, seller).finalizeLotAuction(auctionId, 1);
+    }
+  }
+
+  async function allocationOf(auctionId: number, bidder: Signer): Promise<bigint> {
+    return decrypt32(await lots.getAllocation(auctionId, bidder.address), address, bidder);
+  }
+
+  async function clearingPrice(auctionId: number, signer: Signer = seller): Promise<bigint> {
+    return decrypt32(await lots.getClearingPrice(auctionId), address, signer);
+  }
+
+  describe("lot auction creation", function () {
+    it("validates the listing", async function () {
+      const create = connectAs(lots, seller).createLotAuction;
+      await expect(create("", 10, DAY, tokenAddress)).to.be.revertedWith("Title cannot be empty");
+      await expect(create("Tickets", 0, DAY, tokenAddress)).to.be.revertedWith("Invalid number of units");
+      await expect(create("Tickets", 1000001, DAY, tokenAddress)).to.be.revertedWith("Invalid number of units");
+      await expect(create("Tickets", 10, 0, tokenAddress)).to.be.revertedWith("Duration must be positive");
+      await expect(create("Tickets", 10, 8 * DAY, tokenAddress)).to.be.revertedWith("Duration cannot exceed 7 days");
+      await expect(create("Tickets", 10, DAY, ethers.ZeroAddress)).to.be.revertedWith("Invalid payment token");
+
+      await expect(create("Tickets", 10, DAY, tokenAddress)).to.emit(lots, "LotAuctionCreated");
+      expect(await lots.lotAuctionCount()).to.equal(1);
+    });
+  });
+
+  describe("bidding", function () {
+    let auctionId: number;
+
+    beforeEach(async function () {
+      auctionId = await createLotAuction();
+    });
+
+    it("escrows quantity times unit price and caps the quantity at the lot size", async function () {
+      await expect(lotBid(alice, auctionId, 4, 25)).to.emit(lots, "LotBidPlaced").withArgs(auctionId, alice.address);
+      expect(await tokenBalance(alice)).to.equal(900);
+
+      await lotBid(bob, auctionId, 50, 3);
+      const [quantity] = await lots.getLotBid(auctionId, bob.address);
+      expect(await decrypt32(quantity, address, bob)).to.equal(10);
+      expect(await tokenBalance(bob)).to.equal(970);
+    });
+
+    it("voids bids whose escrow could not be transferred", async function () {
+      await approve(carol, 10);
+      await lotBid(carol, auctionId, 5, 20);
+
+      const [quantity, unitPrice] = await lots.getLotBid(auctionId, carol.address);
+      expect(await decrypt32(quantity, address, carol)).to.equal(0);
+      expect(await decrypt32(unitPrice, address, carol)).to.equal(0);
+      expect(await tokenBalance(carol)).to.equal(1000);
+    });
+
+    it("rejects second bids, seller bids and late bids", async function () {
+      await lotBid(alice, auctionId, 1, 10);
+      await expect(lotBid(alice, auctionId, 2, 10)).to.be.revertedWith("Already placed a bid");
+      await expect(lotBid(seller, auctionId, 1, 10)).to.be.revertedWith("Seller cannot bid on own auction");
+
+      await increaseTime(DAY + 1);
+      await expect(lotBid(bob, auctionId, 1, 10)).to.be.revertedWith("Auction has ended");
+    });
+
+    it("requires a bond with every bid", async function () {
+      const input = await fhevm.createEncryptedInput(address, alice.address).add32(1).add32(10).encrypt();
+      const place = connectAs(lots, alice).placeLotBid;
+      await expect(place(auctionId, input.handles[0], input.handles[1], input.inputProof)).to.be.revertedWith(
+        "Bid bond required",
+      );
+      await expect(
+        place(auctionId, input.handles[0], input.handles[1], input.inputProof, { value: bond * BigInt(2) }),
+      ).to.be.revertedWith("Bid bond required");
+
+      await expect(lotBid(alice, auctionId, 1, 10)).to.changeEtherBalances([alice, lots], [-bond, bond]);
+    });
+
+    it("caps the number of bidders", async function () {
+      const maxBidders = Number(await lots.MAX_LOT_BIDDERS());
+      for (let i = 0; i < maxBidders; i++) {
+        const wallet = ethers.Wallet.createRandom().connect(ethers.provider);
+        await owner.sendTransaction({ to: wallet.address, value: ethers.parseEther("1") });
+        await lotBid(wallet as unknown as Signer, auctionId, 1, 1);
+      }
+      await expect(lotBid(alice, auctionId, 1, 10)).to.be.revertedWith("Too many bidders");
+    });
+  });
+
+  describe("allocation and settlement", function () {
+    let auctionId: number;
+
+    beforeEach(async function () {
+      auctionId = await createLotAuction();
+    });
+
+    it("fills the best bids, partially fills the marginal one and charges the clearing price", async function () {
+      await lotBid(alice, auctionId, 6, 10);
+      await lotBid(bob, auctionId, 6, 8);
+      await lotBid(carol, auctionId, 3, 5);
+      await endAndFinalize(auctionId);
+
+      expect(await allocationOf(auctionId, alice)).to.equal(6);
+      expect(await allocationOf(auctionId, bob)).to.equal(4);
+      expect(await allocationOf(auctionId, carol)).to.equal(0);
+      expect(await clearingPrice(auctionId)).to.equal(8);
+      expect(await clearingPrice(auctionId, carol)).to.equal(8);
+
+      // Everyone gets back what their escrow did not pay for
+      expect(await tokenBalance(alice)).to.equal(1000 - 6 * 8);
+      expect(await tokenBalance(bob)).to.equal(1000 - 4 * 8);
+      expect(await tokenBalance(carol)).to.equal(1000);
+      expect(await tokenBalance(seller)).to.equal(80);
+    });
+
+    it("returns every bond once the auction is settled", async function () {
+      await approve(bob, 0);
+      await lotBid(alice, auctionId, 6, 10);
+      await lotBid(bob, auctionId, 6, 8);
+      await expect(connectAs(lots, alice).withdrawBond()).to.be.revertedWith("No bond to withdraw");
+      await endAndFinalize(auctionId);
+
+      // Bob's voided bid gets its bond back as well
+      await expect(connectAs(lots, alice).withdrawBond()).to.changeEtherBalances([alice, lots], [bond, -bond]);
+      await expect(connectAs(lots, bob).withdrawBond()).to.changeEtherBalances([bob, lots], [bond, -bond]);
+      await expect(connectAs(lots, bob).withdrawBond()).to.be.revertedWith("No bond to withdraw");
+    });
+
+    it("breaks unit price ties in favour of the earlier bid", async function () {
+      await lotBid(alice, auctionId, 6, 10);
+      await lotBid(bob, auctionId, 6, 10);
+      await endAndFinalize(auctionId);
+
+      expect(await allocationOf(auctionId, alice)).to.equal(6);
+      expect(await allocationOf(auctionId, bob)).to.equal(4);
+      expect(await clearingPrice(auctionId)).to.equal(10);
+      expect(await tokenBalance(bob)).to.equal(960);
+      expect(await tokenBalance(seller)).to.equal(100);
+    });
+
+    it("gives voided bids nothing and returns their escrow untouched", async function () {
+      await approve(dave, 10);
+      await lotBid(dave, auctionId, 5, 20);
+      await lotBid(alice, auctionId, 4, 10);
+      await endAndFinalize(auctionId);
+
+      expect(await allocationOf(auctionId, dave)).to.equal(0);
+      expect(await allocationOf(auctionId, alice)).to.equal(4);
+      expect(await clearingPrice(auctionId)).to.equal(10);
+      expect(await tokenBalance(dave)).to.equal(1000);
+      expect(await tokenBalance(alice)).to.equal(960);
+    });
+
+    it("reports a zero clearing price when nobody wins", async function () {
+      await approve(alice, 0);
+      await lotBid(alice, auctionId, 5, 20);
+      await endAndFinalize(auctionId);
+
+      expect(await allocationOf(auctionId, alice)).to.equal(0);
+      expect(await clearingPrice(auctionId)).to.equal(0);
+      expect(await clearingPrice(auctionId, alice)).to.equal(0);
+      expect(await tokenBalance(alice)).to.equal(1000);
+      expect(await tokenBalance(seller)).to.equal(0);
+    });
+
+    it("finalizes auctions without bids in a single step", async function () {
+      await increaseTime(DAY + 1);
+      await expect(connectAs(lots, seller).finalizeLotAuction(auctionId, 1))
+        .to.emit(lots, "LotAuctionFinalized")
+        .withArgs(auctionId);
+      expect(await clearingPrice(auctionId)).to.equal(0);
+    });
+  });
+
+  describe("finalizeLotAuction", function () {
+    let auctionId: number;
+
+    beforeEach(async function () {
+      auctionId = await createLotAuction();
+      await lotBid(alice, auctionId, 6, 10);
+      await lotBid(bob, auctionId, 6, 8);
+      await lotBid(carol, auctionId, 3, 5);
+    });
+
+    it("is restricted to the seller or an operator once the auction has ended", async function () {
+      await expect(connectAs(lots, seller).finalizeLotAuction(auctionId, 1)).to.be.revertedWith(
+        "Auction is still active",
+      );
+      await increaseTime(DAY + 1);
+      await expect(connectAs(lots, alice).finalizeLotAuction(auctionId, 1)).to.be.revertedWith(
+        "Only seller or auction house can finalize",
+      );
+      await expect(connectAs(lots, seller).finalizeLotAuction(auctionId, 0)).to.be.revertedWith(
+        "Must run at least one step",
+      );
+      await expect(lots.finalizeLotAuction(99, 1)).to.be.revertedWith("Auction does not exist");
+    });
+
+    it("resumes across calls until the auction is finalized", async function () {
+      await increaseTime(DAY + 1);
+
+      // Three allocation steps, three settlement steps and a closing step
+      await connectAs(lots, seller).finalizeLotAuction(auctionId, 2);
+      await connectAs(lots, operator).finalizeLotAuction(auctionId, 2);
+      expect((await lots.lotAuctions(auctionId)).allocatedBids).to.equal(3);
+      expect((await lots.lotAuctions(auctionId)).settledBids).to.equal(1);
+      await expect(lots.getAllocation(auctionId, alice.address)).to.be.revertedWith("Auction not finalized");
+      await expect(lots.getClearingPrice(auctionId)).to.be.revertedWith("Auction not finalized");
+
+      await connectAs(lots, seller).finalizeLotAuction(auctionId, 2);
+      await expect(connectAs(lots, seller).finalizeLotAuction(auctionId, 2))
+        .to.emit(lots, "LotAuctionFinalized")
+        .withArgs(auctionId);
+      await expect(connectAs(lots, seller).finalizeLotAuction(auctionId, 1)).to.be.revertedWith(
+        "Auction already finalized",
+      );
+
+      expect(await allocationOf(auctionId, bob)).to.equal(4);
+      expect(await clearingPrice(auctionId)).to.equal(8);
+      expect(await tokenBalance(seller)).to.equal(80);
+    });
+  });
+});
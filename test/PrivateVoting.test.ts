@@ -0,0 +1,704 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import type { Contract } from "ethers";
+import { Signer, connectAs, decrypt32, encrypt32, increaseTime, latestTime } from "./helpers";
+
+const DAY = 24 * 60 * 60;
+
+// Mirrors PrivateVoting.ProposalState
+const State = { Pending: 0, Active: 1, Closed: 2, Revealed: 3, Cancelled: 4 };
+
+describe("PrivateVoting", function () {
+  let owner: Signer;
+  let admin: Signer;
+  let operator: Signer;
+  let alice: Signer;
+  let bob: Signer;
+  let carol: Signer;
+  let dave: Signer;
+  let outsider: Signer;
+  let voting: Contract;
+  let address: string;
+
+  before(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+    [owner, admin, operator, alice, bob, carol, dave, outsider] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    voting = await ethers.deployContract("PrivateVoting");
+    address = await voting.getAddress();
+    await voting.grantRole(await voting.ADMIN_ROLE(), admin.address);
+    await voting.grantRole(await voting.OPERATOR_ROLE(), operator.address);
+    await connectAs(voting, operator).batchAuthorizeVoters([alice.address, bob.address, carol.address, dave.address]);
+  });
+
+  async function createProposal(duration = DAY): Promise<number> {
+    await voting["createProposal(string,uint256)"]("Fund the grants program", duration);
+    return Number(await voting.proposalCount()) - 1;
+  }
+
+  async function createRuledProposal(quorum: number, passingPercent: number): Promise<number> {
+    await voting["createProposal(string,uint256,uint32,uint8)"]("Raise the quorum", DAY, quorum, passingPercent);
+    return Number(await voting.proposalCount()) - 1;
+  }
+
+  async function createOptionProposal(labels: string[]): Promise<number> {
+    await voting["createProposal(string,uint256,string[])"]("Pick a venue", DAY, labels);
+    return Number(await voting.proposalCount()) - 1;
+  }
+
+  async function vote(voter: Signer, proposalId: number, support: boolean) {
+    const input = await fhevm.createEncryptedInput(address, voter.address).addBool(support).encrypt();
+    return connectAs(voting, voter).castVote(proposalId, input.handles[0], input.inputProof);
+  }
+
+  async function voteOption(voter: Signer, proposalId: number, option: number) {
+    const input = await fhevm.createEncryptedInput(address, voter.address).add8(option).encrypt();
+    return connectAs(voting, voter).castOptionVote(proposalId, input.handles[0], input.inputProof);
+  }
+
+  async function tallies(proposalId: number, signer: Signer = owner): Promise<[bigint, bigint]> {
+    const [yes, no] = await voting.getVoteCounts(proposalId);
+    return [await decrypt32(yes, address, signer), await decrypt32(no, address, signer)];
+  }
+
+  async function closeAndReveal(proposalId: number) {
+    await increaseTime(DAY + 1);
+    await voting.markResultsRevealed(proposalId);
+    await fhevm.awaitDecryptionOracle();
+  }
+
+  describe("deployment", function () {
+    it("makes the deployer owner and an authorized voter", async function () {
+      expect(await voting.owner()).to.equal(owner.address);
+      expect(await voting.admin()).to.equal(owner.address);
+      expect(await voting.isAuthorizedVoter(owner.address)).to.equal(true);
+      expect(await voting.getProposalCount()).to.equal(0);
+      await expect(connectAs(voting, alice).initialize()).to.be.revertedWith("Already initialized");
+    });
+  });
+
+  describe("proposal creation", function () {
+    it("creates a yes/no proposal with encrypted zero tallies", async function () {
+      await expect(voting["createProposal(string,uint256)"]("Fund the grants program", DAY)).to.emit(
+        voting,
+        "ProposalCreated",
+      );
+
+      const [description, startTime, endTime, resultsRevealed] = await voting.getProposal(0);
+      expect(description).to.equal("Fund the grants program");
+      expect(endTime - startTime).to.equal(DAY);
+      expect(resultsRevealed).to.equal(false);
+      expect(await voting.getProposalCount()).to.equal(1);
+      expect(await voting.getProposalOptions(0)).to.deep.equal([]);
+      expect(await tallies(0)).to.deep.equal([BigInt(0), BigInt(0)]);
+      expect(await tallies(0, admin)).to.deep.equal([BigInt(0), BigInt(0)]);
+    });
+
+    it("is restricted to admins by onlyAdmin", async function () {
+      const message = "Only admin can perform this action";
+      const voter = connectAs(voting, alice);
+      const start = (await latestTime()) + DAY;
+
+      await expect(voter["createProposal(string,uint256)"]("x", DAY)).to.be.revertedWith(message);
+      await expect(voter["createProposal(string,uint256,uint32,uint8)"]("x", DAY, 1, 50)).to.be.revertedWith(message);
+      await expect(voter["createProposal(string,uint256,string[])"]("x", DAY, ["a", "b"])).to.be.revertedWith(message);
+      await expect(voter["createScheduledProposal(string,uint256,uint256)"]("x", start, DAY)).to.be.revertedWith(
+        message,
+      );
+      await expect(
+        voter["createScheduledProposal(string,uint256,uint256,uint32,uint8)"]("x", start, DAY, 1, 50),
+      ).to.be.revertedWith(message);
+      await expect(
+        voter["createScheduledProposal(string,uint256,uint256,string[])"]("x", start, DAY, ["a", "b"]),
+      ).to.be.revertedWith(message);
+      await expect(connectAs(voting, operator).setWeightedVoting(true)).to.be.revertedWith(message);
+      await expect(voter.setRevoting(true)).to.be.revertedWith(message);
+
+      await expect(connectAs(voting, admin)["createProposal(string,uint256)"]("x", DAY)).to.emit(
+        voting,
+        "ProposalCreated",
+      );
+    });
+
+    it("validates the description, duration and options", async function () {
+      await expect(voting["createProposal(string,uint256)"]("", DAY)).to.be.revertedWith("Description cannot be empty");
+      await expect(voting["createProposal(string,uint256)"]("x", 0)).to.be.revertedWith("Duration must be positive");
+      await expect(voting["createProposal(string,uint256,uint32,uint8)"]("x", DAY, 1, 0)).to.be.revertedWith(
+        "Passing percent must be 1-100",
+      );
+      await expect(voting["createProposal(string,uint256,uint32,uint8)"]("x", DAY, 1, 101)).to.be.revertedWith(
+        "Passing percent must be 1-100",
+      );
+      await expect(voting["createProposal(string,uint256,string[])"]("x", DAY, ["a"])).to.be.revertedWith(
+        "At least two options required",
+      );
+      const tooMany = Array.from({ length: 11 }, (_, i) => `option ${i}`);
+      await expect(voting["createProposal(string,uint256,string[])"]("x", DAY, tooMany)).to.be.revertedWith(
+        "Too many options",
+      );
+      await expect(voting["createProposal(string,uint256,string[])"]("x", DAY, ["a", ""])).to.be.revertedWith(
+        "Option label cannot be empty",
+      );
+    });
+
+    it("schedules proposals that open in the future", async function () {
+      const start = (await latestTime()) + DAY;
+      await expect(
+        voting["createScheduledProposal(string,uint256,uint256)"]("x", start - 2 * DAY, DAY),
+      ).to.be.revertedWith("Start time is in the past");
+
+      await expect(voting["createScheduledProposal(string,uint256,uint256)"]("Later", start, DAY))
+        .to.emit(voting, "ProposalCreated")
+        .withArgs(0, "Later", start, start + DAY);
+      expect(await voting.getProposalState(0)).to.equal(State.Pending);
+      expect(await voting.isVotingOpen(0)).to.equal(false);
+    });
+
+    it("schedules quorum and multi-option proposals as well", async function () {
+      const start = (await latestTime()) + DAY;
+      await expect(
+        voting["createScheduledProposal(string,uint256,uint256,uint32,uint8)"]("x", start - 2 * DAY, DAY, 1, 50),
+      ).to.be.revertedWith("Start time is in the past");
+      await expect(
+        voting["createScheduledProposal(string,uint256,uint256,uint32,uint8)"]("x", start, DAY, 1, 0),
+      ).to.be.revertedWith("Passing percent must be 1-100");
+      await expect(
+        voting["createScheduledProposal(string,uint256,uint256,string[])"]("x", start - 2 * DAY, DAY, ["a", "b"]),
+      ).to.be.revertedWith("Start time is in the past");
+      await expect(
+        voting["createScheduledProposal(string,uint256,uint256,string[])"]("x", start, DAY, ["a"]),
+      ).to.be.revertedWith("At least two options required");
+
+      await expect(
+        voting["createScheduledProposal(string,uint256,uint256,uint32,uint8)"]("Raise the quorum", start, DAY, 2, 50),
+      )
+        .to.emit(voting, "ProposalCreated")
+        .withArgs(0, "Raise the quorum", start, start + DAY);
+      await voting["createScheduledProposal(string,uint256,uint256,string[])"]("Pick a venue", start, DAY, ["a", "b"]);
+      expect(await voting.getProposalState(0)).to.equal(State.Pending);
+      expect(await voting.getProposalState(1)).to.equal(State.Pending);
+      expect(await voting.getProposalOptions(1)).to.deep.equal(["a", "b"]);
+      await expect(vote(alice, 0, true)).to.be.revertedWith("Voting has not started");
+      await expect(voteOption(alice, 1, 0)).to.be.revertedWith("Voting has not started");
+
+      await increaseTime(DAY);
+      await vote(alice, 0, true);
+      await voteOption(alice, 1, 1);
+      await increaseTime(DAY + 1);
+      await voting.markResultsRevealed(0);
+      await voting.markResultsRevealed(1);
+      await fhevm.awaitDecryptionOracle();
+
+      // One yes vote misses the quorum of two
+      const [quorumReached, passed] = await voting.getOutcome(0);
+      expect(quorumReached).to.equal(false);
+      expect(passed).to.equal(false);
+      expect(await voting.getRevealedOptionResults(1)).to.deep.equal([0, 1]);
+    });
+
+    it("rejects unknown proposal ids", async function () {
+      await expect(voting.getProposal(0)).to.be.revertedWith("Proposal does not exist");
+      await expect(voting.getVoteCounts(0)).to.be.revertedWith("Proposal does not exist");
+      await expect(voting.getProposalState(0)).to.be.revertedWith("Proposal does not exist");
+      await expect(vote(alice, 0, true)).to.be.revertedWith("Proposal does not exist");
+    });
+  });
+
+  describe("voter management", function () {
+    it("is restricted to operators", async function () {
+      const message = "Only operator can perform this action";
+      await expect(connectAs(voting, alice).authorizeVoter(outsider.address)).to.be.revertedWith(message);
+      await expect(connectAs(voting, alice).revokeVoter(bob.address)).to.be.revertedWith(message);
+      await expect(connectAs(voting, alice).batchAuthorizeVoters([outsider.address])).to.be.revertedWith(message);
+    });
+
+    it("authorizes and revokes voters", async function () {
+      await expect(connectAs(voting, operator).authorizeVoter(outsider.address))
+        .to.emit(voting, "VoterAuthorized")
+        .withArgs(outsider.address);
+      expect(await voting.isAuthorizedVoter(outsider.address)).to.equal(true);
+
+      await expect(connectAs(voting, admin).revokeVoter(outsider.address))
+        .to.emit(voting, "VoterRevoked")
+        .withArgs(outsider.address);
+      expect(await voting.authorizedVoters(outsider.address)).to.equal(false);
+
+      await expect(voting.authorizeVoter(ethers.ZeroAddress)).to.be.revertedWith("Invalid voter address");
+      await expect(voting.batchAuthorizeVoters([outsider.address, ethers.ZeroAddress])).to.be.revertedWith(
+        "Invalid voter address",
+      );
+      await expect(voting.revokeVoter(owner.address)).to.be.revertedWith("Cannot revoke owner");
+    });
+  });
+
+  describe("yes/no voting", function () {
+    let proposalId: number;
+
+    beforeEach(async function () {
+      proposalId = await createProposal();
+    });
+
+    it("counts encrypted ballots that only admins can decrypt", async function () {
+      await expect(vote(alice, proposalId, true)).to.emit(voting, "VoteCast").withArgs(alice.address, proposalId);
+      await vote(bob, proposalId, true);
+      await vote(carol, proposalId, false);
+
+      expect(await voting.hasVoted(alice.address, proposalId)).to.equal(true);
+      expect(await voting.hasVoted(dave.address, proposalId)).to.equal(false);
+      expect(await tallies(proposalId)).to.deep.equal([BigInt(2), BigInt(1)]);
+
+      const [yes] = await voting.getVoteCounts(proposalId);
+      await expect(decrypt32(yes, address, alice)).to.be.rejected;
+    });
+
+    it("shares existing tallies with new admins on request", async function () {
+      await vote(alice, proposalId, true);
+      await voting.grantRole(await voting.ADMIN_ROLE(), carol.address);
+
+      await expect(voting.shareExistingHandles(dave.address, proposalId, proposalId + 1)).to.be.revertedWith(
+        "Account is not an admin",
+      );
+      await expect(voting.shareExistingHandles(carol.address, proposalId, proposalId + 2)).to.be.revertedWith(
+        "Invalid range",
+      );
+      await expect(
+        connectAs(voting, carol).shareExistingHandles(carol.address, proposalId, proposalId + 1),
+      ).to.be.revertedWith("Only owner can perform this action");
+
+      await voting.shareExistingHandles(carol.address, proposalId, proposalId + 1);
+      expect(await tallies(proposalId, carol)).to.deep.equal([BigInt(1), BigInt(0)]);
+    });
+
+    it("rejects unauthorized voters and second ballots", async function () {
+      await expect(vote(outsider, proposalId, true)).to.be.revertedWith("Not authorized to vote");
+
+      await vote(alice, proposalId, true);
+      await expect(vote(alice, proposalId, false)).to.be.revertedWith("Already voted on this proposal");
+    });
+
+    it("rejects option ballots on yes/no proposals", async function () {
+      await expect(voteOption(alice, proposalId, 0)).to.be.revertedWith("Proposal is a yes/no vote");
+      await expect(voting.getOptionVoteCounts(proposalId)).to.be.revertedWith("Proposal is a yes/no vote");
+      await expect(voting.getRevealedOptionResults(proposalId)).to.be.revertedWith("Proposal is a yes/no vote");
+    });
+  });
+
+  describe("votingOpen", function () {
+    it("rejects ballots before voting starts", async function () {
+      const start = (await latestTime()) + DAY;
+      await voting["createScheduledProposal(string,uint256,uint256)"]("Later", start, DAY);
+      await expect(vote(alice, 0, true)).to.be.revertedWith("Voting has not started");
+
+      await increaseTime(DAY);
+      expect(await voting.getProposalState(0)).to.equal(State.Active);
+      await vote(alice, 0, true);
+    });
+
+    it("rejects ballots after voting ends", async function () {
+      const proposalId = await createProposal();
+      await increaseTime(DAY + 1);
+
+      expect(await voting.isVotingOpen(proposalId)).to.equal(false);
+      expect(await voting.getProposalState(proposalId)).to.equal(State.Closed);
+      await expect(vote(alice, proposalId, true)).to.be.revertedWith("Voting has ended");
+    });
+
+    it("rejects ballots on cancelled proposals", async function () {
+      const proposalId = await createProposal();
+      await expect(voting.cancelProposal(proposalId)).to.emit(voting, "ProposalCancelled").withArgs(proposalId);
+
+      expect(await voting.getProposalState(proposalId)).to.equal(State.Cancelled);
+      await expect(vote(alice, proposalId, true)).to.be.revertedWith("Proposal is cancelled");
+    });
+  });
+
+  describe("revealing results", function () {
+    let proposalId: number;
+
+    beforeEach(async function () {
+      proposalId = await createProposal();
+      await vote(alice, proposalId, true);
+      await vote(bob, proposalId, false);
+      await vote(carol, proposalId, true);
+    });
+
+    it("publishes the decrypted tallies through the oracle", async function () {
+      await expect(voting.markResultsRevealed(proposalId)).to.be.revertedWith("Voting is still open");
+      await expect(voting.getRevealedResults(proposalId)).to.be.revertedWith("Results not revealed yet");
+
+      await increaseTime(DAY + 1);
+      await expect(connectAs(voting, alice).markResultsRevealed(proposalId)).to.be.revertedWith(
+        "Only admin can perform this action",
+      );
+      await expect(voting.markResultsRevealed(proposalId)).to.emit(voting, "ResultsRevealRequested");
+      await expect(voting.markResultsRevealed(proposalId)).to.be.revertedWith("Reveal already requested");
+
+      await fhevm.awaitDecryptionOracle();
+
+      const [yes, no] = await voting.getRevealedResults(proposalId);
+      expect(yes).to.equal(2);
+      expect(no).to.equal(1);
+      expect(await voting.getProposalState(proposalId)).to.equal(State.Revealed);
+      expect((await voting.getProposal(proposalId))[3]).to.equal(true);
+      await expect(voting.markResultsRevealed(proposalId)).to.be.revertedWith("Results already revealed");
+    });
+
+    it("rejects callbacks without valid KMS signatures", async function () {
+      await expect(voting.resultsDecryptionCallback(1, "0x", "0x")).to.be.reverted;
+    });
+
+    it("cannot reveal cancelled proposals", async function () {
+      const cancelled = await createProposal();
+      await voting.cancelProposal(cancelled);
+      await increaseTime(DAY + 1);
+      await expect(voting.markResultsRevealed(cancelled)).to.be.revertedWith("Proposal is cancelled");
+    });
+  });
+
+  describe("multi-option proposals", function () {
+    let proposalId: number;
+
+    beforeEach(async function () {
+      proposalId = await createOptionProposal(["Lisbon", "Berlin", "Tokyo"]);
+    });
+
+    it("tallies encrypted option indices and reveals every option", async function () {
+      expect(await voting.getProposalOptions(proposalId)).to.deep.equal(["Lisbon", "Berlin", "Tokyo"]);
+
+      await voteOption(alice, proposalId, 1);
+      await voteOption(bob, proposalId, 1);
+      await voteOption(carol, proposalId, 2);
+      // Out-of-range index: a blank ballot
+      await voteOption(dave, proposalId, 7);
+
+      const handles: string[] = await voting.getOptionVoteCounts(proposalId);
+      expect(await decrypt32(handles[0], address, owner)).to.equal(0);
+      expect(await decrypt32(handles[1], address, owner)).to.equal(2);
+      expect(await decrypt32(handles[2], address, owner)).to.equal(1);
+
+      await closeAndReveal(proposalId);
+      expect(await voting.getRevealedOptionResults(proposalId)).to.deep.equal([0, 2, 1]);
+      await expect(voting.getRevealedResults(proposalId)).to.be.revertedWith("Proposal has multiple options");
+    });
+
+    it("rejects yes/no ballots", async function () {
+      await expect(vote(alice, proposalId, true)).to.be.revertedWith("Proposal has multiple options");
+    });
+
+    it("rejects ballots once voting has ended", async function () {
+      await increaseTime(DAY + 1);
+      await expect(voteOption(alice, proposalId, 0)).to.be.revertedWith("Voting has ended");
+    });
+  });
+
+  describe("passing rules", function () {
+    it("reveals only whether the quorum was reached and the proposal passed", async function () {
+      const proposalId = await createRuledProposal(3, 60);
+      await vote(alice, proposalId, true);
+      await vote(bob, proposalId, true);
+      await vote(carol, proposalId, false);
+
+      await expect(voting.getOutcome(proposalId)).to.be.revertedWith("Results not revealed yet");
+      await closeAndReveal(proposalId);
+
+      const [quorumReached, passed] = await voting.getOutcome(proposalId);
+      expect(quorumReached).to.equal(true);
+      expect(passed).to.equal(true);
+      await expect(voting.getRevealedResults(proposalId)).to.be.revertedWith(
+        "Tallies are never revealed for this proposal",
+      );
+    });
+
+    it("keeps the raw tallies from the owner and admins", async function () {
+      const proposalId = await createRuledProposal(3, 60);
+      await vote(alice, proposalId, true);
+      await vote(bob, proposalId, false);
+
+      const [yes, no] = await voting.getVoteCounts(proposalId);
+      await expect(decrypt32(yes, address, owner)).to.be.rejected;
+      await expect(decrypt32(no, address, admin)).to.be.rejected;
+
+      await voting.shareExistingHandles(admin.address, proposalId, proposalId + 1);
+      await expect(decrypt32(yes, address, admin)).to.be.rejected;
+    });
+
+    it("fails proposals below the passing percentage", async function () {
+      const proposalId = await createRuledProposal(3, 70);
+      await vote(alice, proposalId, true);
+      await vote(bob, proposalId, true);
+      await vote(carol, proposalId, false);
+      await closeAndReveal(proposalId);
+
+      const [quorumReached, passed] = await voting.getOutcome(proposalId);
+      expect(quorumReached).to.equal(true);
+      expect(passed).to.equal(false);
+    });
+
+    it("fails proposals without quorum", async function () {
+      const proposalId = await createRuledProposal(3, 50);
+      await vote(alice, proposalId, true);
+      await closeAndReveal(proposalId);
+
+      const [quorumReached, passed] = await voting.getOutcome(proposalId);
+      expect(quorumReached).to.equal(false);
+      expect(passed).to.equal(false);
+    });
+
+    it("has no outcome on proposals without rules", async function () {
+      const proposalId = await createProposal();
+      await expect(voting.getOutcome(proposalId)).to.be.revertedWith("Proposal has no passing rules");
+    });
+  });
+
+  describe("weighted voting", function () {
+    it("counts ballots with each voter's encrypted weight", async function () {
+      const input = await encrypt32(address, owner, 5);
+      await expect(
+        connectAs(voting, alice).setVoterWeight(alice.address, input.handles[0], input.inputProof),
+      ).to.be.revertedWith("Only admin can perform this action");
+      await expect(voting.setVoterWeight(alice.address, input.handles[0], input.inputProof))
+        .to.emit(voting, "VoterWeightSet")
+        .withArgs(alice.address);
+      await expect(voting.setWeightedVoting(true)).to.emit(voting, "WeightedVotingToggled").withArgs(true);
+      expect(await voting.weightedVotingEnabled()).to.equal(true);
+
+      expect(await decrypt32(await voting.getVoterWeight(alice.address), address, alice)).to.equal(5);
+      await expect(decrypt32(await voting.getVoterWeight(alice.address), address, bob)).to.be.rejected;
+
+      const proposalId = await createProposal();
+      await vote(alice, proposalId, true);
+      // Voters without a weight count as one
+      await vote(bob, proposalId, false);
+      expect(await tallies(proposalId)).to.deep.equal([BigInt(5), BigInt(1)]);
+    });
+
+    it("shares existing weights with new admins on request", async function () {
+      const input = await encrypt32(address, owner, 5);
+      await voting.setVoterWeight(alice.address, input.handles[0], input.inputProof);
+      await voting.grantRole(await voting.ADMIN_ROLE(), carol.address);
+      await expect(decrypt32(await voting.getVoterWeight(alice.address), address, carol)).to.be.rejected;
+
+      await expect(voting.shareVoterWeights(carol.address, 0, 2)).to.be.revertedWith("Invalid range");
+      await voting.shareVoterWeights(carol.address, 0, 1);
+      expect(await decrypt32(await voting.getVoterWeight(alice.address), address, carol)).to.equal(5);
+    });
+
+    it("rejects weights for the zero address", async function () {
+      const input = await encrypt32(address, owner, 5);
+      await expect(voting.setVoterWeight(ethers.ZeroAddress, input.handles[0], input.inputProof)).to.be.revertedWith(
+        "Invalid voter address",
+      );
+    });
+
+    it("ignores weights on proposals created before it was enabled", async function () {
+      const input = await encrypt32(address, owner, 5);
+      await voting.setVoterWeight(alice.address, input.handles[0], input.inputProof);
+      const proposalId = await createProposal();
+      await voting.setWeightedVoting(true);
+
+      await vote(alice, proposalId, true);
+      expect(await tallies(proposalId)).to.deep.equal([BigInt(1), BigInt(0)]);
+    });
+  });
+
+  describe("re-voting", function () {
+    it("replaces a previous ballot without decrypting it", async function () {
+      await expect(voting.setRevoting(true)).to.emit(voting, "RevotingToggled").withArgs(true);
+      const proposalId = await createProposal();
+
+      await vote(alice, proposalId, true);
+      await vote(bob, proposalId, true);
+      await expect(vote(alice, proposalId, false))
+        .to.emit(voting, "VoteChanged")
+        .withArgs(alice.address, proposalId);
+      expect(await tallies(proposalId)).to.deep.equal([BigInt(1), BigInt(1)]);
+    });
+
+    it("replaces option ballots as well", async function () {
+      await voting.setRevoting(true);
+      const proposalId = await createOptionProposal(["a", "b"]);
+
+      await voteOption(alice, proposalId, 0);
+      await voteOption(alice, proposalId, 1);
+      const handles: string[] = await voting.getOptionVoteCounts(proposalId);
+      expect(await decrypt32(handles[0], address, owner)).to.equal(0);
+      expect(await decrypt32(handles[1], address, owner)).to.equal(1);
+    });
+  });
+
+  describe("delegation", function () {
+    it("lets a delegate vote with the weight of voters who stay silent", async function () {
+      await expect(connectAs(voting, alice).delegate(bob.address))
+        .to.emit(voting, "DelegateChanged")
+        .withArgs(alice.address, bob.address);
+      const proposalId = await createProposal();
+      expect(await voting.getDelegate(alice.address, proposalId)).to.equal(bob.address);
+
+      await vote(bob, proposalId, true);
+      expect(await tallies(proposalId)).to.deep.equal([BigInt(2), BigInt(0)]);
+
+      // Voting directly withdraws the delegated weight from the delegate's ballot
+      await vote(alice, proposalId, false);
+      expect(await tallies(proposalId)).to.deep.equal([BigInt(1), BigInt(1)]);
+    });
+
+    it("prefers a proposal-specific delegate over the global one", async function () {
+      const proposalId = await createProposal();
+      await connectAs(voting, alice).delegate(bob.address);
+      await expect(connectAs(voting, alice).delegateForProposal(proposalId, carol.address))
+        .to.emit(voting, "ProposalDelegateChanged")
+        .withArgs(alice.address, proposalId, carol.address);
+      expect(await voting.getDelegate(alice.address, proposalId)).to.equal(carol.address);
+
+      await vote(bob, proposalId, true);
+      await vote(carol, proposalId, false);
+      expect(await tallies(proposalId)).to.deep.equal([BigInt(1), BigInt(2)]);
+    });
+
+    it("validates delegates", async function () {
+      const voter = connectAs(voting, alice);
+      await expect(voter.delegate(alice.address)).to.be.revertedWith("Cannot delegate to yourself");
+      await expect(voter.delegate(outsider.address)).to.be.revertedWith("Delegate is not an authorized voter");
+      await expect(connectAs(voting, outsider).delegate(bob.address)).to.be.revertedWith("Not authorized to vote");
+
+      const proposalId = await createProposal();
+      await increaseTime(DAY + 1);
+      await expect(voter.delegateForProposal(proposalId, bob.address)).to.be.revertedWith("Voting has ended");
+    });
+
+    it("frees a delegator slot when a delegation is cleared or changed", async function () {
+      const maxDelegators = Number(await voting.MAX_DELEGATORS());
+      const wallets: Signer[] = [];
+      for (let i = 0; i < maxDelegators; i++) {
+        const wallet = ethers.Wallet.createRandom().connect(ethers.provider);
+        await owner.sendTransaction({ to: wallet.address, value: ethers.parseEther("1") });
+        wallets.push(wallet as unknown as Signer);
+      }
+      await connectAs(voting, operator).batchAuthorizeVoters(wallets.map((wallet) => wallet.address));
+      for (const wallet of wallets) {
+        await connectAs(voting, wallet).delegate(bob.address);
+      }
+      await expect(connectAs(voting, alice).delegate(bob.address)).to.be.revertedWith(
+        "Delegate has too many delegators",
+      );
+
+      await connectAs(voting, wallets[0]).delegate(ethers.ZeroAddress);
+      await connectAs(voting, alice).delegate(bob.address);
+      await connectAs(voting, wallets[1]).delegate(carol.address);
+      await connectAs(voting, dave).delegate(bob.address);
+
+      // Proposal-specific delegations have a limit of their own
+      const proposalId = await createProposal();
+      await connectAs(voting, carol).delegateForProposal(proposalId, bob.address);
+      expect(await voting.getDelegate(carol.address, proposalId)).to.equal(bob.address);
+    });
+
+    it("withdraws counted weight when the global delegate changes", async function () {
+      await voting.setRevoting(true);
+      const proposalId = await createProposal();
+      await connectAs(voting, alice).delegate(bob.address);
+      await vote(bob, proposalId, true);
+      expect(await tallies(proposalId)).to.deep.equal([BigInt(2), BigInt(0)]);
+
+      await connectAs(voting, alice).delegate(carol.address);
+      expect(await tallies(proposalId)).to.deep.equal([BigInt(1), BigInt(0)]);
+      await vote(carol, proposalId, false);
+      expect(await tallies(proposalId)).to.deep.equal([BigInt(1), BigInt(2)]);
+
+      // Bob re-voting no longer carries Alice's weight, Carol re-voting still does
+      await vote(bob, proposalId, false);
+      await vote(carol, proposalId, true);
+      expect(await tallies(proposalId)).to.deep.equal([BigInt(2), BigInt(1)]);
+    });
+
+    it("withdraws counted weight when the proposal delegate changes", async function () {
+      const proposalId = await createProposal();
+      await connectAs(voting, alice).delegateForProposal(proposalId, bob.address);
+      await vote(bob, proposalId, true);
+      expect(await tallies(proposalId)).to.deep.equal([BigInt(2), BigInt(0)]);
+
+      await connectAs(voting, alice).delegateForProposal(proposalId, ethers.ZeroAddress);
+      expect(await tallies(proposalId)).to.deep.equal([BigInt(1), BigInt(0)]);
+
+      await connectAs(voting, alice).delegateForProposal(proposalId, carol.address);
+      await vote(carol, proposalId, false);
+      expect(await tallies(proposalId)).to.deep.equal([BigInt(1), BigInt(2)]);
+    });
+
+    it("forgets the weight of a delegator revoked before the delegate re-votes", async function () {
+      await voting.setRevoting(true);
+      const proposalId = await createProposal();
+      await connectAs(voting, alice).delegate(carol.address);
+      await vote(bob, proposalId, true);
+      await vote(carol, proposalId, true);
+      expect(await tallies(proposalId)).to.deep.equal([BigInt(3), BigInt(0)]);
+
+      await connectAs(voting, operator).revokeVoter(alice.address);
+      await vote(carol, proposalId, true);
+      expect(await tallies(proposalId)).to.deep.equal([BigInt(2), BigInt(0)]);
+
+      // Nothing left to withdraw from Carol's ballot when Alice votes herself
+      await connectAs(voting, operator).authorizeVoter(alice.address);
+      await vote(alice, proposalId, false);
+      expect(await tallies(proposalId)).to.deep.equal([BigInt(2), BigInt(1)]);
+    });
+
+    it("keeps counted weight once voting has ended", async function () {
+      const proposalId = await createProposal();
+      await connectAs(voting, alice).delegate(bob.address);
+      await vote(bob, proposalId, true);
+
+      await increaseTime(DAY + 1);
+      await connectAs(voting, alice).delegate(carol.address);
+      expect(await tallies(proposalId)).to.deep.equal([BigInt(2), BigInt(0)]);
+    });
+  });
+
+  describe("cancelling and extending", function () {
+    it("only cancels pending or active proposals", async function () {
+      const proposalId = await createProposal();
+      await expect(connectAs(voting, alice).cancelProposal(proposalId)).to.be.revertedWith(
+        "Only admin can perform this action",
+      );
+
+      await increaseTime(DAY + 1);
+      await expect(voting.cancelProposal(proposalId)).to.be.revertedWith(
+        "Only pending or active proposals can be cancelled",
+      );
+
+      const start = (await latestTime()) + DAY;
+      await voting["createScheduledProposal(string,uint256,uint256)"]("Later", start, DAY);
+      await voting.cancelProposal(1);
+      await expect(voting.cancelProposal(1)).to.be.revertedWith("Only pending or active proposals can be cancelled");
+    });
+
+    it("extends open proposals", async function () {
+      const proposalId = await createProposal();
+      const [, , endTime] = await voting.getProposal(proposalId);
+
+      await expect(connectAs(voting, alice).extendVoting(proposalId, DAY)).to.be.revertedWith(
+        "Only admin can perform this action",
+      );
+      await expect(voting.extendVoting(proposalId, 0)).to.be.revertedWith("Extension must be positive");
+
+      await voting.extendVoting(proposalId, DAY);
+      expect((await voting.getProposal(proposalId))[2]).to.equal(endTime + BigInt(DAY));
+
+      await increaseTime(DAY + 1);
+      await vote(alice, proposalId, true);
+
+      await increaseTime(DAY);
+      await expect(voting.extendVoting(proposalId, DAY)).to.be.revertedWith("Voting already ended");
+    });
+
+    it("does not extend cancelled proposals", async function () {
+      const proposalId = await createProposal();
+      await voting.cancelProposal(proposalId);
+      await expect(voting.extendVoting(proposalId, DAY)).to.be.revertedWith("Proposal is cancelled");
+    });
+  });
+});
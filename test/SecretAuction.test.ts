@@ -0,0 +1,704 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import type { Contract } from "ethers";
+import { Signer, connectAs, decrypt32, decryptEuint, encrypt32, increaseTime, latestTime } from "./helpers";
+
+const DAY = 24 * 60 * 60;
+
+// Mirrors SecretAuction.AuctionType
+const FirstPrice = 0;
+const SecondPrice = 1;
+
+// Bids are denominated in BID_UNIT (1e12 wei)
+function units(amount: number | string): bigint {
+  return ethers.parseUnits(String(amount), 12);
+}
+
+describe("SecretAuction", function () {
+  let owner: Signer;
+  let seller: Signer;
+  let operator: Signer;
+  let alice: Signer;
+  let bob: Signer;
+  let carol: Signer;
+  let auction: Contract;
+  let address: string;
+
+  before(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+    [owner, seller, operator, alice, bob, carol] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    auction = await ethers.deployContract("SecretAuction");
+    address = await auction.getAddress();
+    await auction.grantRole(await auction.OPERATOR_ROLE(), operator.address);
+  });
+
+  async function createAuction(reserve: number, auctionType = FirstPrice, duration = DAY): Promise<number> {
+    const input = await encrypt32(address, seller, reserve);
+    await connectAs(auction, seller)["createAuction(string,string,bytes32,bytes,uint256,uint8)"](
+      "Vintage watch",
+      "Sealed-bid sale",
+      input.handles[0],
+      input.inputProof,
+      duration,
+      auctionType,
+    );
+    return Number(await auction.auctionCount()) - 1;
+  }
+
+  async function bid(bidder: Signer, auctionId: number, amount: number, deposit: number | string = amount) {
+    const input = await encrypt32(address, bidder, amount);
+    return connectAs(auction, bidder).placeBid(auctionId, input.handles[0], input.inputProof, {
+      value: units(deposit),
+    });
+  }
+
+  async function updateBid(bidder: Signer, auctionId: number, amount: number, topUp: number | string = 0) {
+    const input = await encrypt32(address, bidder, amount);
+    return connectAs(auction, bidder).updateBid(auctionId, input.handles[0], input.inputProof, {
+      value: units(topUp),
+    });
+  }
+
+  async function bidOf(auctionId: number, bidder: Signer): Promise<bigint> {
+    const [handle] = await auction.getBidInfo(auctionId, bidder.address);
+    return decrypt32(handle, address, bidder);
+  }
+
+  async function endAndSettle(auctionId: number) {
+    await increaseTime(DAY + 1);
+    if (await auction.leaderRebuildPending(auctionId)) {
+      await connectAs(auction, seller).rebuildLeader(auctionId, 100);
+    }
+    await connectAs(auction, seller).finalizeAuction(auctionId);
+    await fhevm.awaitDecryptionOracle();
+  }
+
+  async function expectInvariant(escrowed: bigint, withdrawable: bigint) {
+    const [holds, totalEscrowed, totalWithdrawable] = await auction.checkEscrowInvariant();
+    expect(holds).to.equal(true);
+    expect(totalEscrowed).to.equal(escrowed);
+    expect(totalWithdrawable).to.equal(withdrawable);
+  }
+
+  describe("deployment", function () {
+    it("makes the deployer the auction house with a 2.5% fee", async function () {
+      expect(await auction.auctionHouse()).to.equal(owner.address);
+      expect(await auction.platformFeePercent()).to.equal(250);
+      expect(await auction.getAuctionCount()).to.equal(0);
+      await expect(connectAs(auction, alice).initialize()).to.be.revertedWith("Already initialized");
+    });
+
+    it("lets only the auction house change the fee, up to 10%", async function () {
+      await expect(connectAs(auction, alice).setPlatformFee(100)).to.be.revertedWith(
+        "Only auction house can perform this action",
+      );
+      await expect(auction.setPlatformFee(1001)).to.be.revertedWith("Fee cannot exceed 10%");
+
+      await auction.setPlatformFee(1000);
+      expect(await auction.platformFeePercent()).to.equal(1000);
+    });
+  });
+
+  describe("auction creation", function () {
+    it("stores the auction with an encrypted highest bid for the seller and admins", async function () {
+      const input = await encrypt32(address, seller, 50);
+      const tx = connectAs(auction, seller)["createAuction(string,string,bytes32,bytes,uint256)"](
+        "Vintage watch",
+        "Sealed-bid sale",
+        input.handles[0],
+        input.inputProof,
+        DAY,
+      );
+      await expect(tx).to.emit(auction, "AuctionCreated");
+
+      const [title, description, auctionSeller, startTime, endTime, finalized, cancelled, auctionType] =
+        await auction.getAuction(0);
+      expect(title).to.equal("Vintage watch");
+      expect(description).to.equal("Sealed-bid sale");
+      expect(auctionSeller).to.equal(seller.address);
+      expect(endTime - startTime).to.equal(DAY);
+      expect(finalized).to.equal(false);
+      expect(cancelled).to.equal(false);
+      expect(auctionType).to.equal(FirstPrice);
+      expect(await auction.isAuctionActive(0)).to.equal(true);
+      expect(await auction.getAuctionCount()).to.equal(1);
+
+      const [highestBid] = await auction.getHighestBid(0);
+      expect(await decrypt32(highestBid, address, seller)).to.equal(0);
+      expect(await decrypt32(highestBid, address, owner)).to.equal(0);
+    });
+
+    it("validates the title, duration and payment token", async function () {
+      const input = await encrypt32(address, seller, 50);
+      const create = connectAs(auction, seller)["createAuction(string,string,bytes32,bytes,uint256)"];
+
+      await expect(create("", "", input.handles[0], input.inputProof, DAY)).to.be.revertedWith(
+        "Title cannot be empty",
+      );
+      await expect(create("x", "", input.handles[0], input.inputProof, 0)).to.be.revertedWith(
+        "Duration must be positive",
+      );
+      await expect(create("x", "", input.handles[0], input.inputProof, 7 * DAY + 1)).to.be.revertedWith(
+        "Duration cannot exceed 7 days",
+      );
+      await expect(
+        connectAs(auction, seller)["createAuction(string,string,bytes32,bytes,uint256,uint8,address)"](
+          "x",
+          "",
+          input.handles[0],
+          input.inputProof,
+          DAY,
+          FirstPrice,
+          ethers.ZeroAddress,
+        ),
+      ).to.be.revertedWith("Invalid payment token");
+    });
+
+    it("rejects unknown auction ids", async function () {
+      await expect(auction.getAuction(0)).to.be.revertedWith("Auction does not exist");
+      await expect(auction.getWinner(0)).to.be.revertedWith("Auction does not exist");
+      await expect(bid(alice, 0, 10)).to.be.revertedWith("Auction does not exist");
+    });
+  });
+
+  describe("bidding", function () {
+    let auctionId: number;
+
+    beforeEach(async function () {
+      auctionId = await createAuction(50);
+    });
+
+    it("escrows the deposit and keeps the bid readable by the bidder only", async function () {
+      await expect(bid(alice, auctionId, 100, 120))
+        .to.emit(auction, "BidPlaced")
+        .withArgs(auctionId, alice.address);
+
+      const [, hasBid] = await auction.getBidInfo(auctionId, alice.address);
+      expect(hasBid).to.equal(true);
+      expect(await bidOf(auctionId, alice)).to.equal(100);
+      expect((await auction.bidders(auctionId, alice.address)).deposit).to.equal(units(120));
+      expect(await auction.auctionBidders(auctionId, 0)).to.equal(alice.address);
+
+      const [handle] = await auction.getBidInfo(auctionId, alice.address);
+      await expect(decrypt32(handle, address, bob)).to.be.rejected;
+      await expectInvariant(units(120), BigInt(0));
+    });
+
+    it("replaces bids above the deposit with zero", async function () {
+      await bid(alice, auctionId, 100, 50);
+      expect(await bidOf(auctionId, alice)).to.equal(0);
+    });
+
+    it("validates bidders and deposits", async function () {
+      await expect(bid(seller, auctionId, 100)).to.be.revertedWith("Seller cannot bid on own auction");
+      await expect(bid(alice, auctionId, 100, 0)).to.be.revertedWith("Must send ETH with bid");
+      await expect(bid(alice, auctionId, 0, "0.5")).to.be.revertedWith("Deposit below one bid unit");
+      await expect(bid(alice, auctionId, 100, 5000 * 1e6)).to.be.revertedWith("Deposit exceeds maximum bid");
+
+      await bid(alice, auctionId, 100);
+      await expect(bid(alice, auctionId, 120)).to.be.revertedWith("Already placed a bid, use updateBid");
+    });
+
+    it("does not cap the number of bidders", async function () {
+      for (let i = 0; i < 20; i++) {
+        const wallet = ethers.Wallet.createRandom().connect(ethers.provider);
+        await owner.sendTransaction({ to: wallet.address, value: ethers.parseEther("1") });
+        const input = await fhevm.createEncryptedInput(address, wallet.address).add32(1).encrypt();
+        await connectAs(auction, wallet as unknown as Signer).placeBid(auctionId, input.handles[0], input.inputProof, {
+          value: units(1),
+        });
+      }
+      await bid(alice, auctionId, 100);
+
+      await endAndSettle(auctionId);
+      expect(await auction.getWinner(auctionId)).to.equal(alice.address);
+    });
+
+    it("is rejected by auctionActive once the auction has ended", async function () {
+      await bid(alice, auctionId, 60);
+      await increaseTime(DAY + 1);
+
+      expect(await auction.isAuctionActive(auctionId)).to.equal(false);
+      await expect(bid(bob, auctionId, 100)).to.be.revertedWith("Auction has ended");
+      await expect(updateBid(alice, auctionId, 70)).to.be.revertedWith("Auction has ended");
+      await expect(connectAs(auction, alice).retractBid(auctionId)).to.be.revertedWith("Auction has ended");
+    });
+
+    it("is rejected by auctionActive once the auction is cancelled", async function () {
+      await bid(alice, auctionId, 60);
+      await connectAs(auction, seller).cancelAuction(auctionId);
+
+      await expect(bid(bob, auctionId, 100)).to.be.revertedWith("Auction is cancelled");
+      await expect(updateBid(alice, auctionId, 70)).to.be.revertedWith("Auction is cancelled");
+      await expect(connectAs(auction, alice).retractBid(auctionId)).to.be.revertedWith("Auction is cancelled");
+    });
+
+    it("shares existing bids with new admins on request", async function () {
+      await bid(alice, auctionId, 60);
+      await bid(bob, auctionId, 70);
+      await auction.grantRole(await auction.ADMIN_ROLE(), carol.address);
+      const [handle] = await auction.getBidInfo(auctionId, alice.address);
+      await expect(decrypt32(handle, address, carol)).to.be.rejected;
+
+      await expect(auction.shareBids(alice.address, auctionId, 0, 1)).to.be.revertedWith("Account is not an admin");
+      await expect(auction.shareBids(carol.address, auctionId, 1, 3)).to.be.revertedWith("Invalid range");
+      await expect(connectAs(auction, carol).shareBids(carol.address, auctionId, 0, 1)).to.be.revertedWith(
+        "Only owner can perform this action",
+      );
+      await auction.shareBids(carol.address, auctionId, 0, 1);
+      expect(await decrypt32(handle, address, carol)).to.equal(60);
+
+      await expect(auction.shareExistingHandles(carol.address, 0, auctionId + 2)).to.be.revertedWith("Invalid range");
+      await auction.shareExistingHandles(carol.address, 0, auctionId + 1);
+      const { reservePrice } = await auction.auctions(auctionId);
+      expect(await decrypt32(reservePrice, address, carol)).to.equal(50);
+    });
+  });
+
+  describe("updating and retracting bids", function () {
+    let auctionId: number;
+
+    beforeEach(async function () {
+      auctionId = await createAuction(50);
+    });
+
+    it("replaces a bid within the existing deposit", async function () {
+      await bid(alice, auctionId, 60, 100);
+      await bid(bob, auctionId, 80);
+
+      await expect(updateBid(alice, auctionId, 90)).to.emit(auction, "BidUpdated").withArgs(auctionId, alice.address);
+      expect(await bidOf(auctionId, alice)).to.equal(90);
+
+      await endAndSettle(auctionId);
+      expect(await auction.getWinner(auctionId)).to.equal(alice.address);
+    });
+
+    it("tops up the deposit to cover a higher bid", async function () {
+      await bid(alice, auctionId, 60);
+      await updateBid(alice, auctionId, 150, 90);
+
+      expect(await bidOf(auctionId, alice)).to.equal(150);
+      expect((await auction.bidders(auctionId, alice.address)).deposit).to.equal(units(150));
+      await expectInvariant(units(150), BigInt(0));
+    });
+
+    it("does not count the old amount after lowering a bid", async function () {
+      await bid(alice, auctionId, 100);
+      await bid(bob, auctionId, 80);
+      await updateBid(alice, auctionId, 70);
+
+      await endAndSettle(auctionId);
+      expect(await auction.getWinner(auctionId)).to.equal(bob.address);
+    });
+
+    it("refunds a retracted bid and lets the bidder bid again", async function () {
+      await bid(alice, auctionId, 100);
+      await bid(bob, auctionId, 80);
+
+      const tx = connectAs(auction, alice).retractBid(auctionId);
+      await expect(tx).to.emit(auction, "BidRetracted").withArgs(auctionId, alice.address);
+      await expect(tx).to.changeEtherBalance(alice, units(100));
+      expect((await auction.getBidInfo(auctionId, alice.address))[1]).to.equal(false);
+      await expectInvariant(units(80), BigInt(0));
+
+      await bid(alice, auctionId, 70);
+      await endAndSettle(auctionId);
+      expect(await auction.getWinner(auctionId)).to.equal(bob.address);
+    });
+
+    it("treats a bid placed again after retracting as a later bid", async function () {
+      await bid(alice, auctionId, 80);
+      await bid(bob, auctionId, 80);
+      await connectAs(auction, alice).retractBid(auctionId);
+      await bid(alice, auctionId, 80);
+
+      // Ties go to the earlier bid, which is now Bob's
+      await endAndSettle(auctionId);
+      expect(await auction.getWinner(auctionId)).to.equal(bob.address);
+    });
+
+    it("rebuilds the leader in steps before the auction can be finalized", async function () {
+      await bid(alice, auctionId, 100);
+      await bid(bob, auctionId, 80);
+      await bid(carol, auctionId, 60);
+      await connectAs(auction, alice).retractBid(auctionId);
+      expect(await auction.leaderRebuildPending(auctionId)).to.equal(true);
+
+      await expect(connectAs(auction, seller).rebuildLeader(auctionId, 1)).to.be.revertedWith(
+        "Auction is still active",
+      );
+      await increaseTime(DAY + 1);
+      await expect(connectAs(auction, seller).finalizeAuction(auctionId)).to.be.revertedWith("Leader rebuild pending");
+      await expect(connectAs(auction, alice).rebuildLeader(auctionId, 1)).to.be.revertedWith(
+        "Only seller or auction house can finalize",
+      );
+      await expect(connectAs(auction, seller).rebuildLeader(auctionId, 0)).to.be.revertedWith(
+        "Must run at least one step",
+      );
+
+      await connectAs(auction, seller).rebuildLeader(auctionId, 2);
+      expect(await auction.leaderRebuildPending(auctionId)).to.equal(true);
+      await connectAs(auction, operator).rebuildLeader(auctionId, 2);
+      expect(await auction.leaderRebuildPending(auctionId)).to.equal(false);
+      await expect(connectAs(auction, seller).rebuildLeader(auctionId, 1)).to.be.revertedWith("No rebuild pending");
+
+      await connectAs(auction, seller).finalizeAuction(auctionId);
+      await fhevm.awaitDecryptionOracle();
+      expect(await auction.getWinner(auctionId)).to.equal(bob.address);
+      expect(await auction.balances(seller.address)).to.equal(units(78));
+    });
+
+    it("requires an existing bid", async function () {
+      await expect(updateBid(alice, auctionId, 70, 70)).to.be.revertedWith("No bid to update");
+      await expect(connectAs(auction, alice).retractBid(auctionId)).to.be.revertedWith("No bid to retract");
+    });
+  });
+
+  describe("first-price settlement", function () {
+    let auctionId: number;
+
+    beforeEach(async function () {
+      auctionId = await createAuction(50);
+      await bid(alice, auctionId, 100, 120);
+      await bid(bob, auctionId, 80);
+    });
+
+    it("charges the winner their bid and splits it between seller and platform", async function () {
+      await expect(connectAs(auction, seller).finalizeAuction(auctionId)).to.be.revertedWith(
+        "Auction is still active",
+      );
+      await expect(auction.getWinner(auctionId)).to.be.revertedWith("Auction not finalized");
+      await expect(connectAs(auction, bob).claimRefund(auctionId)).to.be.revertedWith("Auction not settled");
+
+      await increaseTime(DAY + 1);
+      await expect(connectAs(auction, alice).finalizeAuction(auctionId)).to.be.revertedWith(
+        "Only seller or auction house can finalize",
+      );
+      await expect(connectAs(auction, seller).finalizeAuction(auctionId)).to.emit(
+        auction,
+        "AuctionSettlementRequested",
+      );
+      await expect(connectAs(auction, seller).finalizeAuction(auctionId)).to.be.revertedWith(
+        "Settlement already requested",
+      );
+
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await auction.getWinner(auctionId)).to.equal(alice.address);
+      expect((await auction.getAuction(auctionId))[5]).to.equal(true);
+      expect(await auction.balances(seller.address)).to.equal(units("97.5"));
+      expect(await auction.balances(owner.address)).to.equal(units("2.5"));
+      await expectInvariant(units(100), units(100));
+    });
+
+    it("is guarded by notFinalized once settled", async function () {
+      await endAndSettle(auctionId);
+      await expect(connectAs(auction, seller).finalizeAuction(auctionId)).to.be.revertedWith(
+        "Auction already finalized",
+      );
+      await expect(connectAs(auction, seller).cancelAuction(auctionId)).to.be.revertedWith("Auction already finalized");
+    });
+
+    it("lets the operator finalize", async function () {
+      await increaseTime(DAY + 1);
+      await connectAs(auction, operator).finalizeAuction(auctionId);
+      await fhevm.awaitDecryptionOracle();
+      expect(await auction.getWinner(auctionId)).to.equal(alice.address);
+    });
+
+    it("returns the winner's change and the losers' deposits through claimRefund", async function () {
+      await endAndSettle(auctionId);
+
+      const aliceClaim = connectAs(auction, alice).claimRefund(auctionId);
+      await expect(aliceClaim).to.changeEtherBalance(alice, units(20));
+      await expect(aliceClaim)
+        .to.emit(auction, "RefundProcessed")
+        .withArgs(auctionId, alice.address, units(20));
+      await expect(connectAs(auction, bob).claimRefund(auctionId)).to.changeEtherBalance(bob, units(80));
+
+      await expect(connectAs(auction, bob).claimRefund(auctionId)).to.be.revertedWith("No refund to claim");
+      await expect(connectAs(auction, carol).claimRefund(auctionId)).to.be.revertedWith("No refund to claim");
+      await expectInvariant(BigInt(0), units(100));
+    });
+
+    it("pays out seller proceeds and fees through withdraw", async function () {
+      await endAndSettle(auctionId);
+
+      await expect(connectAs(auction, seller).withdraw()).to.changeEtherBalance(seller, units("97.5"));
+      await expect(auction.withdraw()).to.changeEtherBalance(owner, units("2.5"));
+      await expect(connectAs(auction, seller).withdraw()).to.be.revertedWith("No balance to withdraw");
+      await expect(connectAs(auction, alice).withdraw()).to.be.revertedWith("No balance to withdraw");
+      await expectInvariant(units(100), BigInt(0));
+    });
+  });
+
+  describe("second-price settlement", function () {
+    it("charges the winner the runner-up bid", async function () {
+      const auctionId = await createAuction(50, SecondPrice);
+      await bid(alice, auctionId, 100);
+      await bid(bob, auctionId, 80);
+      await bid(carol, auctionId, 60);
+
+      await increaseTime(DAY + 1);
+      await expect(connectAs(auction, seller).finalizeAuction(auctionId)).to.emit(
+        auction,
+        "AuctionSettlementRequested",
+      );
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await auction.getWinner(auctionId)).to.equal(alice.address);
+      expect(await auction.balances(seller.address)).to.equal(units(78));
+      expect(await auction.balances(owner.address)).to.equal(units(2));
+      await expect(connectAs(auction, alice).claimRefund(auctionId)).to.changeEtherBalance(alice, units(20));
+    });
+
+    it("raises the price to the reserve when the runner-up is below it", async function () {
+      const auctionId = await createAuction(90, SecondPrice);
+      await bid(alice, auctionId, 100);
+      await bid(bob, auctionId, 80);
+      await endAndSettle(auctionId);
+
+      expect(await auction.getWinner(auctionId)).to.equal(alice.address);
+      expect(await auction.totalWithdrawable()).to.equal(units(90));
+    });
+  });
+
+  describe("unsuccessful auctions", function () {
+    it("refunds every bidder when the reserve is not met", async function () {
+      const auctionId = await createAuction(200);
+      await bid(alice, auctionId, 100);
+      await bid(bob, auctionId, 150);
+      await endAndSettle(auctionId);
+
+      expect(await auction.getWinner(auctionId)).to.equal(ethers.ZeroAddress);
+      await expect(connectAs(auction, alice).claimRefund(auctionId)).to.changeEtherBalance(alice, units(100));
+      await expect(connectAs(auction, bob).claimRefund(auctionId)).to.changeEtherBalance(bob, units(150));
+      await expectInvariant(BigInt(0), BigInt(0));
+    });
+
+    it("finalizes auctions without bids immediately", async function () {
+      const auctionId = await createAuction(50);
+      await increaseTime(DAY + 1);
+
+      await expect(connectAs(auction, seller).finalizeAuction(auctionId))
+        .to.emit(auction, "AuctionFinalized")
+        .withArgs(auctionId, ethers.ZeroAddress, 0);
+      expect(await auction.getWinner(auctionId)).to.equal(ethers.ZeroAddress);
+    });
+
+    it("settles as no sale when the reserve is zero and every bid was voided", async function () {
+      const auctionId = await createAuction(0);
+      // Bids above the deposit count as zero, so nobody ever takes the lead
+      await bid(alice, auctionId, 100, 50);
+      await endAndSettle(auctionId);
+
+      expect((await auction.getAuction(auctionId))[5]).to.equal(true);
+      expect(await auction.getWinner(auctionId)).to.equal(ethers.ZeroAddress);
+      expect(await auction.balances(seller.address)).to.equal(0);
+      await expect(connectAs(auction, alice).claimRefund(auctionId)).to.changeEtherBalance(alice, units(50));
+      await expectInvariant(BigInt(0), BigInt(0));
+    });
+  });
+
+  describe("cancellation", function () {
+    let auctionId: number;
+
+    beforeEach(async function () {
+      auctionId = await createAuction(50);
+      await bid(alice, auctionId, 100);
+    });
+
+    it("lets the seller or the auction house cancel before the end", async function () {
+      await expect(connectAs(auction, alice).cancelAuction(auctionId)).to.be.revertedWith(
+        "Only seller or auction house can cancel",
+      );
+      await expect(connectAs(auction, seller).cancelAuction(auctionId))
+        .to.emit(auction, "AuctionCancelled")
+        .withArgs(auctionId);
+
+      const [, , , , , finalized, cancelled] = await auction.getAuction(auctionId);
+      expect(finalized).to.equal(true);
+      expect(cancelled).to.equal(true);
+      expect(await auction.isAuctionActive(auctionId)).to.equal(false);
+
+      await expect(connectAs(auction, alice).claimRefund(auctionId)).to.changeEtherBalance(alice, units(100));
+      await expectInvariant(BigInt(0), BigInt(0));
+    });
+
+    it("lets the operator cancel", async function () {
+      await connectAs(auction, operator).cancelAuction(auctionId);
+      expect((await auction.getAuction(auctionId))[6]).to.equal(true);
+    });
+
+    it("cannot cancel after the end", async function () {
+      await increaseTime(DAY + 1);
+      await expect(connectAs(auction, seller).cancelAuction(auctionId)).to.be.revertedWith(
+        "Cannot cancel after auction ends",
+      );
+    });
+  });
+
+  describe("soft close", function () {
+    let auctionId: number;
+    let endTime: bigint;
+
+    beforeEach(async function () {
+      auctionId = await createAuction(50);
+      endTime = (await auction.getAuction(auctionId))[4];
+    });
+
+    it("validates the configuration", async function () {
+      const configure = connectAs(auction, seller).configureSoftClose;
+      const maxEnd = endTime + BigInt(3600);
+
+      await expect(connectAs(auction, alice).configureSoftClose(auctionId, 600, 300, maxEnd)).to.be.revertedWith(
+        "Only seller can configure soft-close",
+      );
+      await expect(configure(auctionId, 0, 300, maxEnd)).to.be.revertedWith("Window and extension must be positive");
+      await expect(configure(auctionId, 600, 300, endTime - BigInt(1))).to.be.revertedWith(
+        "Max end time before end time",
+      );
+      await expect(configure(auctionId, 600, 300, endTime + BigInt(7 * DAY + 1))).to.be.revertedWith(
+        "Extensions cannot exceed 7 days",
+      );
+
+      await bid(alice, auctionId, 60);
+      await expect(configure(auctionId, 600, 300, maxEnd)).to.be.revertedWith("Auction already has bids");
+    });
+
+    it("extends the auction for late bids, up to the maximum end time", async function () {
+      await expect(connectAs(auction, seller).configureSoftClose(auctionId, 600, 300, endTime + BigInt(450)))
+        .to.emit(auction, "SoftCloseConfigured")
+        .withArgs(auctionId, 600, 300, endTime + BigInt(450));
+
+      // An early bid does not extend the auction
+      await bid(alice, auctionId, 60);
+      expect((await auction.getAuction(auctionId))[4]).to.equal(endTime);
+
+      await increaseTime(Number(endTime) - (await latestTime()) - 100);
+      await expect(bid(bob, auctionId, 70))
+        .to.emit(auction, "AuctionExtended")
+        .withArgs(auctionId, endTime + BigInt(300));
+
+      await expect(bid(carol, auctionId, 80))
+        .to.emit(auction, "AuctionExtended")
+        .withArgs(auctionId, endTime + BigInt(450));
+
+      // Past the original end, but still before the extended one
+      await increaseTime(250);
+      await updateBid(alice, auctionId, 65);
+      expect((await auction.getAuction(auctionId))[4]).to.equal(endTime + BigInt(450));
+    });
+  });
+
+  describe("token auctions", function () {
+    let token: Contract;
+    let tokenAddress: string;
+    let auctionId: number;
+
+    async function approve(holder: Signer, amount: number) {
+      const input = await fhevm.createEncryptedInput(tokenAddress, holder.address).add64(amount).encrypt();
+      await connectAs(token, holder)["approve(address,bytes32,bytes)"](address, input.handles[0], input.inputProof);
+    }
+
+    async function tokenBalance(holder: Signer): Promise<bigint> {
+      return decryptEuint(FhevmType.euint64, await token.balanceOf(holder.address), tokenAddress, holder);
+    }
+
+    async function createTokenAuction(reserve: number): Promise<number> {
+      const input = await encrypt32(address, seller, reserve);
+      await connectAs(auction, seller)["createAuction(string,string,bytes32,bytes,uint256,uint8,address)"](
+        "Vintage watch",
+        "Paid in BID",
+        input.handles[0],
+        input.inputProof,
+        DAY,
+        FirstPrice,
+        tokenAddress,
+      );
+      return Number(await auction.auctionCount()) - 1;
+    }
+
+    async function tokenBid(bidder: Signer, amount: number) {
+      const input = await encrypt32(address, bidder, amount);
+      return connectAs(auction, bidder).placeTokenBid(auctionId, input.handles[0], input.inputProof);
+    }
+
+    beforeEach(async function () {
+      token = await ethers.deployContract("ConfidentialToken", ["Bid Token", "BID"]);
+      tokenAddress = await token.getAddress();
+      await token.mint(alice.address, 1000);
+      await token.mint(bob.address, 1000);
+      await approve(alice, 1000);
+      await approve(bob, 1000);
+      auctionId = await createTokenAuction(50);
+    });
+
+    it("escrows token bids and settles them with encrypted transfers", async function () {
+      await expect(tokenBid(alice, 100)).to.emit(auction, "BidPlaced").withArgs(auctionId, alice.address);
+      await tokenBid(bob, 80);
+      expect(await tokenBalance(alice)).to.equal(900);
+      expect(await tokenBalance(bob)).to.equal(920);
+
+      await endAndSettle(auctionId);
+      expect(await auction.getWinner(auctionId)).to.equal(alice.address);
+      expect(await tokenBalance(seller)).to.equal(98);
+      expect(await tokenBalance(owner)).to.equal(2);
+
+      await connectAs(auction, bob).claimRefund(auctionId);
+      expect(await tokenBalance(bob)).to.equal(1000);
+      await expect(connectAs(auction, alice).claimRefund(auctionId)).to.be.revertedWith("No refund to claim");
+      await expectInvariant(BigInt(0), BigInt(0));
+    });
+
+    it("settles as no sale when the reserve is zero and nothing was escrowed", async function () {
+      auctionId = await createTokenAuction(0);
+      // Carol never approved the auction, so her bid escrows (and counts as) zero
+      await tokenBid(carol, 100);
+      await endAndSettle(auctionId);
+
+      expect((await auction.getAuction(auctionId))[5]).to.equal(true);
+      expect(await auction.getWinner(auctionId)).to.equal(ethers.ZeroAddress);
+      await expect(connectAs(auction, carol).claimRefund(auctionId))
+        .to.emit(auction, "RefundProcessed")
+        .withArgs(auctionId, carol.address, 0);
+    });
+
+    it("escrows nothing when the allowance is too small", async function () {
+      await approve(alice, 10);
+      await tokenBid(alice, 100);
+      expect(await bidOf(auctionId, alice)).to.equal(0);
+      expect(await tokenBalance(alice)).to.equal(1000);
+    });
+
+    it("swaps the escrow on updates and returns it on retraction", async function () {
+      await tokenBid(alice, 100);
+      const input = await encrypt32(address, alice, 40);
+      await connectAs(auction, alice).updateBid(auctionId, input.handles[0], input.inputProof);
+      expect(await bidOf(auctionId, alice)).to.equal(40);
+      expect(await tokenBalance(alice)).to.equal(960);
+
+      await connectAs(auction, alice).retractBid(auctionId);
+      expect(await tokenBalance(alice)).to.equal(1000);
+    });
+
+    it("keeps ETH and token payments apart", async function () {
+      await expect(bid(alice, auctionId, 100)).to.be.revertedWith("Auction is paid in tokens");
+
+      await tokenBid(alice, 100);
+      await expect(updateBid(alice, auctionId, 120, 10)).to.be.revertedWith("Token auctions do not accept ETH");
+
+      const ethAuction = await createAuction(50);
+      const input = await encrypt32(address, alice, 100);
+      await expect(
+        connectAs(auction, alice).placeTokenBid(ethAuction, input.handles[0], input.inputProof),
+      ).to.be.revertedWith("Auction is paid in ETH");
+    });
+  });
+});
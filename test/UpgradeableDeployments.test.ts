@@ -0,0 +1,66 @@
+import { expect } from "chai";
+import { deployments, ethers, fhevm } from "hardhat";
+import type { Contract } from "ethers";
+import { Signer, connectAs, decrypt32 } from "./helpers";
+
+describe("upgradeable deployments", function () {
+  let owner: Signer;
+  let alice: Signer;
+
+  before(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+    [owner, alice] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    await deployments.fixture(["upgradeable"]);
+  });
+
+  async function proxied(deploymentName: string, contractName: string): Promise<[Contract, Contract]> {
+    const deployment = await deployments.get(deploymentName);
+    const proxy = (await ethers.getContractAt(contractName, deployment.address)) as unknown as Contract;
+    const implementation = (await ethers.getContractAt(
+      contractName,
+      deployment.implementation!,
+    )) as unknown as Contract;
+    return [proxy, implementation];
+  }
+
+  async function expectInitializedOnce(proxy: Contract, implementation: Contract) {
+    expect(await proxy.owner()).to.equal(owner.address);
+    await expect(proxy.initialize()).to.be.revertedWith("Already initialized");
+    await expect(connectAs(proxy, alice).initialize()).to.be.revertedWith("Already initialized");
+    // The implementation initializes itself in its constructor, so nobody can claim it either
+    await expect(connectAs(implementation, alice).initialize()).to.be.revertedWith("Already initialized");
+  }
+
+  it("initializes HelloFHEVM behind its proxy", async function () {
+    const [counter, implementation] = await proxied("HelloFHEVMProxy", "HelloFHEVM");
+    await expectInitializedOnce(counter, implementation);
+
+    const counterAddress = await counter.getAddress();
+    expect(await decrypt32(await counter.getCounter(), counterAddress, owner)).to.equal(0);
+    await counter.increment();
+    expect(await decrypt32(await counter.getCounter(), counterAddress, owner)).to.equal(1);
+  });
+
+  it("initializes PrivateVoting behind its proxy", async function () {
+    const [voting, implementation] = await proxied("PrivateVotingProxy", "PrivateVoting");
+    await expectInitializedOnce(voting, implementation);
+
+    expect(await voting.proposalCount()).to.equal(0);
+    expect(await voting.authorizedVoters(owner.address)).to.equal(true);
+    expect(await voting.authorizedVoters(alice.address)).to.equal(false);
+  });
+
+  it("initializes SecretAuction behind its proxy", async function () {
+    const [auction, implementation] = await proxied("SecretAuctionProxy", "SecretAuction");
+    await expectInitializedOnce(auction, implementation);
+
+    expect(await auction.auctionCount()).to.equal(0);
+    expect(await auction.platformFeePercent()).to.equal(250);
+    expect(await auction.auctionHouse()).to.equal(owner.address);
+  });
+});
@@ -0,0 +1,65 @@
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { Contract, ContractTransactionResponse } from "ethers";
+
+// The plugin is typed against the CommonJS build of ethers and the hardhat signers against the
+// ESM build. At runtime they are the same objects.
+type FhevmSigner = Parameters<typeof fhevm.userDecryptEuint>[3];
+type EuintType = Parameters<typeof fhevm.userDecryptEuint>[0];
+
+export type Signer = HardhatEthersSigner;
+
+/** Decrypt an encrypted unsigned integer handle as `signer` (who must be allowed on it) */
+export async function decryptEuint(
+  type: EuintType,
+  handle: string,
+  contractAddress: string,
+  signer: Signer,
+): Promise<bigint> {
+  return fhevm.userDecryptEuint(type, handle, contractAddress, signer as unknown as FhevmSigner);
+}
+
+/** Decrypt an encrypted 32-bit handle, the most common case */
+export async function decrypt32(handle: string, contractAddress: string, signer: Signer): Promise<bigint> {
+  return decryptEuint(FhevmType.euint32, handle, contractAddress, signer);
+}
+
+/** Decrypt an encrypted boolean handle as `signer` */
+export async function decryptBool(handle: string, contractAddress: string, signer: Signer): Promise<boolean> {
+  return fhevm.userDecryptEbool(handle, contractAddress, signer as unknown as FhevmSigner);
+}
+
+/** Encrypt a single 32-bit value for `contractAddress`, bound to `signer` */
+export async function encrypt32(contractAddress: string, signer: Signer, value: number) {
+  return fhevm.createEncryptedInput(contractAddress, signer.address).add32(value).encrypt();
+}
+
+/** The same contract, sending transactions from `signer` */
+export function connectAs(contract: Contract, signer: Signer): Contract {
+  return contract.connect(signer) as Contract;
+}
+
+/** Find the arguments of the first `eventName` log emitted by a transaction */
+export async function eventArgs(contract: Contract, tx: ContractTransactionResponse, eventName: string) {
+  const receipt = await tx.wait();
+  for (const log of receipt!.logs) {
+    const parsed = contract.interface.parseLog(log);
+    if (parsed && parsed.name === eventName) {
+      return parsed.args;
+    }
+  }
+  throw new Error(`${eventName} was not emitted`);
+}
+
+/** Move the chain forward in time and mine a block */
+export async function increaseTime(seconds: number): Promise<void> {
+  await ethers.provider.send("evm_increaseTime", [seconds]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+/** Timestamp of the latest block */
+export async function latestTime(): Promise<number> {
+  const block = await ethers.provider.getBlock("latest");
+  return block!.timestamp;
+}
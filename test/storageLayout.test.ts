@@ -0,0 +1,153 @@
+import { expect } from "chai";
+import hre, { deployments, ethers } from "hardhat";
+import { StorageLayout, assertStorageLayoutCompatible, findStorageLayoutErrors } from "../utils/storageLayout";
+
+// Type ids embed AST node ids, which change between compilations; the checker compares labels and shapes
+const EUINT32 = "t_userDefinedValueType(euint32)10";
+const EUINT64 = "t_userDefinedValueType(euint64)12";
+const BID = "t_struct(Bid)20_storage";
+const BID_MAPPING = `t_mapping(t_uint32,${BID})`;
+const BID_ARRAY = `t_array(${BID})dyn_storage`;
+
+type Entry = StorageLayout["storage"][number];
+
+function entry(label: string, slot: number, type: string): Entry {
+  return { label, slot: String(slot), offset: 0, type };
+}
+
+/** A layout with the value types every test needs, and a `Bid` struct that may carry an extra member */
+function layout(storage: Entry[], bidGrew = false): StorageLayout {
+  const bidMembers = [entry("amount", 0, EUINT32), entry("bidder", 1, "t_address")];
+  if (bidGrew) {
+    bidMembers.push(entry("placedAt", 2, "t_uint256"));
+  }
+  return {
+    storage,
+    types: {
+      t_address: { label: "address", encoding: "inplace", numberOfBytes: "20" },
+      t_uint32: { label: "uint32", encoding: "inplace", numberOfBytes: "4" },
+      t_uint256: { label: "uint256", encoding: "inplace", numberOfBytes: "32" },
+      [EUINT32]: { label: "euint32", encoding: "inplace", numberOfBytes: "32" },
+      [EUINT64]: { label: "euint64", encoding: "inplace", numberOfBytes: "32" },
+      [BID]: {
+        label: "struct Bid",
+        encoding: "inplace",
+        numberOfBytes: String(32 * bidMembers.length),
+        members: bidMembers,
+      },
+      [BID_MAPPING]: {
+        label: "mapping(uint32 => struct Bid)",
+        encoding: "mapping",
+        numberOfBytes: "32",
+        key: "t_uint32",
+        value: BID,
+      },
+      [BID_ARRAY]: { label: "struct Bid[]", encoding: "dynamic_array", numberOfBytes: "32", base: BID },
+    },
+  };
+}
+
+describe("storageLayout", function () {
+  describe("findStorageLayoutErrors", function () {
+    const original = layout([entry("count", 0, "t_uint256"), entry("secret", 1, EUINT32)]);
+
+    it("accepts an unchanged layout", function () {
+      expect(findStorageLayoutErrors(original, original)).to.deep.equal([]);
+    });
+
+    it("accepts variables appended after the existing ones", function () {
+      const appended = layout([
+        entry("count", 0, "t_uint256"),
+        entry("secret", 1, EUINT32),
+        entry("total", 2, "t_uint256"),
+      ]);
+      expect(findStorageLayoutErrors(original, appended)).to.deep.equal([]);
+    });
+
+    it("reports an encrypted handle shifted to another slot", function () {
+      const shifted = layout([
+        entry("count", 0, "t_uint256"),
+        entry("inserted", 1, "t_uint256"),
+        entry("secret", 2, EUINT32),
+      ]);
+      expect(findStorageLayoutErrors(original, shifted)).to.deep.equal([
+        "euint32 secret (encrypted handle slot 1, offset 0) is now uint256 inserted (slot 1, offset 0)",
+      ]);
+    });
+
+    it("reports a retyped variable", function () {
+      const retyped = layout([entry("count", 0, "t_uint256"), entry("secret", 1, EUINT64)]);
+      expect(findStorageLayoutErrors(original, retyped)).to.deep.equal([
+        "euint32 secret (encrypted handle slot 1, offset 0) changed type to " +
+          "euint64 secret (encrypted handle slot 1, offset 0)",
+      ]);
+    });
+
+    it("reports a removed variable", function () {
+      const removed = layout([entry("count", 0, "t_uint256")]);
+      expect(findStorageLayoutErrors(original, removed)).to.deep.equal([
+        "euint32 secret (encrypted handle slot 1, offset 0) was removed",
+      ]);
+    });
+
+    it("lets a struct grow at the end when it is a mapping value", function () {
+      const before = layout([entry("bids", 0, BID_MAPPING)]);
+      const after = layout([entry("bids", 0, BID_MAPPING)], true);
+      expect(findStorageLayoutErrors(before, after)).to.deep.equal([]);
+    });
+
+    it("reports a struct growing inside an array", function () {
+      const before = layout([entry("bids", 0, BID_ARRAY)]);
+      const after = layout([entry("bids", 0, BID_ARRAY)], true);
+      expect(findStorageLayoutErrors(before, after)).to.deep.equal([
+        "struct Bid[] bids (encrypted handle slot 0, offset 0) changed type to " +
+          "struct Bid[] bids (encrypted handle slot 0, offset 0)",
+      ]);
+    });
+  });
+
+  // A deployment name of its own, so the proxies deployed by other suites do not interfere
+  describe("assertStorageLayoutCompatible", function () {
+    afterEach(async function () {
+      await deployments.delete("LayoutCheckProxy_Implementation");
+    });
+
+    async function recordImplementation(storageLayout?: StorageLayout) {
+      const artifact = await deployments.getExtendedArtifact("SecretAuction");
+      await deployments.save("LayoutCheckProxy_Implementation", {
+        abi: artifact.abi,
+        address: ethers.ZeroAddress,
+        storageLayout,
+      });
+    }
+
+    it("passes on the first deployment", async function () {
+      await assertStorageLayoutCompatible(hre, "LayoutCheckProxy", "SecretAuction");
+    });
+
+    it("passes when the recorded layout matches the current build", async function () {
+      const { storageLayout } = await deployments.getExtendedArtifact("SecretAuction");
+      await recordImplementation(storageLayout);
+      await assertStorageLayoutCompatible(hre, "LayoutCheckProxy", "SecretAuction");
+    });
+
+    it("refuses an upgrade that would shift the recorded variables", async function () {
+      const { storageLayout } = await deployments.getExtendedArtifact("SecretAuction");
+      const recorded: StorageLayout = JSON.parse(JSON.stringify(storageLayout));
+      // The deployed version had one more variable in front of the current second one
+      for (const variable of recorded.storage.slice(1)) {
+        variable.slot = String(Number(variable.slot) + 1);
+      }
+      await recordImplementation(recorded);
+
+      await expect(assertStorageLayoutCompatible(hre, "LayoutCheckProxy", "SecretAuction")).to.be.rejectedWith(
+        "Upgrading LayoutCheckProxy to the current SecretAuction would corrupt its storage",
+      );
+    });
+
+    it("skips implementations without a recorded layout on the hardhat network", async function () {
+      await recordImplementation();
+      await assertStorageLayoutCompatible(hre, "LayoutCheckProxy", "SecretAuction");
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+// Shapes of the solc `storageLayout` output (saved by hardhat-deploy in every deployment)
+interface StorageEntry {
+  label: string;
+  slot: string;
+  offset: number;
+  type: string;
+}
+
+interface StorageType {
+  label: string;
+  encoding: "inplace" | "mapping" | "dynamic_array" | "bytes";
+  numberOfBytes: string;
+  key?: string;
+  value?: string;
+  base?: string;
+  members?: StorageEntry[];
+}
+
+export interface StorageLayout {
+  storage: StorageEntry[];
+  types: Record<string, StorageType> | null;
+}
+
+// Encrypted types are user-defined bytes32 handles, so a shifted slot silently points at another ciphertext
+const ENCRYPTED_TYPE = /^e(bool|address|u?int\d*|bytes\d+)$/;
+
+function holdsHandles(typeId: string, layout: StorageLayout): boolean {
+  const type = layout.types?.[typeId];
+  if (!type) {
+    return false;
+  }
+  if (ENCRYPTED_TYPE.test(type.label)) {
+    return true;
+  }
+  const inner = type.value ?? type.base;
+  if (inner) {
+    return holdsHandles(inner, layout);
+  }
+  return (type.members ?? []).some((member) => holdsHandles(member.type, layout));
+}
+
+function describe(entry: StorageEntry, layout: StorageLayout): string {
+  const typeLabel = layout.types?.[entry.type]?.label ?? entry.type;
+  const kind = holdsHandles(entry.type, layout) ? "encrypted handle slot" : "slot";
+  return `${typeLabel} ${entry.label} (${kind} ${entry.slot}, offset ${entry.offset})`;
+}
+
+// Compares two type ids across compilations. Ids embed AST node ids, so only labels and shapes are compared.
+// Structs may grow at the end only where every element has its own hashed slot (mapping values).
+function sameType(
+  oldId: string,
+  oldLayout: StorageLayout,
+  newId: string,
+  newLayout: StorageLayout,
+  canGrow: boolean,
+): boolean {
+  const oldType = oldLayout.types?.[oldId];
+  const newType = newLayout.types?.[newId];
+  if (!oldType || !newType) {
+    return oldId === newId;
+  }
+  if (oldType.label !== newType.label || oldType.encoding !== newType.encoding) {
+    return false;
+  }
+  if (!canGrow && oldType.numberOfBytes !== newType.numberOfBytes) {
+    return false;
+  }
+
+  if (oldType.encoding === "mapping") {
+    return (
+      sameType(oldType.key!, oldLayout, newType.key!, newLayout, false) &&
+      sameType(oldType.value!, oldLayout, newType.value!, newLayout, true)
+    );
+  }
+  if (oldType.base && newType.base) {
+    return sameType(oldType.base, oldLayout, newType.base, newLayout, false);
+  }
+  if (oldType.members) {
+    const newMembers = newType.members ?? [];
+    return oldType.members.every((member, i) => sameEntry(member, oldLayout, newMembers[i], newLayout));
+  }
+  return true;
+}
+
+function sameEntry(
+  oldEntry: StorageEntry,
+  oldLayout: StorageLayout,
+  newEntry: StorageEntry | undefined,
+  newLayout: StorageLayout,
+): boolean {
+  return (
+    newEntry !== undefined &&
+    newEntry.label === oldEntry.label &&
+    newEntry.slot === oldEntry.slot &&
+    newEntry.offset === oldEntry.offset &&
+    sameType(oldEntry.type, oldLayout, newEntry.type, newLayout, false)
+  );
+}
+
+/**
+ * List the variables of an old layout that a new layout moves, retypes or removes.
+ * New variables may only be appended after the existing ones (or fill unused bytes of a slot).
+ */
+export function findStorageLayoutErrors(oldLayout: StorageLayout, newLayout: StorageLayout): string[] {
+  const errors: string[] = [];
+  for (const oldEntry of oldLayout.storage) {
+    const newEntry = newLayout.storage.find(
+      (entry) => entry.slot === oldEntry.slot && entry.offset === oldEntry.offset,
+    );
+    if (!sameEntry(oldEntry, oldLayout, newEntry, newLayout)) {
+      if (!newEntry) {
+        errors.push(`${describe(oldEntry, oldLayout)} was removed`);
+      } else if (newEntry.label === oldEntry.label) {
+        errors.push(`${describe(oldEntry, oldLayout)} changed type to ${describe(newEntry, newLayout)}`);
+      } else {
+        errors.push(`${describe(oldEntry, oldLayout)} is now ${describe(newEntry, newLayout)}`);
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * Throw if upgrading a proxy deployment to the current build of `contractName` would corrupt
+ * its storage. Does nothing for the first deployment, when no implementation is recorded yet.
+ */
+export async function assertStorageLayoutCompatible(
+  hre: HardhatRuntimeEnvironment,
+  deploymentName: string,
+  contractName: string,
+): Promise<void> {
+  const previous = await hre.deployments.getOrNull(`${deploymentName}_Implementation`);
+  if (!previous) {
+    return;
+  }
+  if (!previous.storageLayout) {
+    // hardhat-deploy records layouts only in deployment files, never on the in-memory hardhat network
+    if (hre.network.name === "hardhat") {
+      return;
+    }
+    throw new Error(`${deploymentName}: the deployed implementation has no recorded storage layout`);
+  }
+
+  const current = await hre.deployments.getExtendedArtifact(contractName);
+  const errors = findStorageLayoutErrors(previous.storageLayout, current.storageLayout);
+  if (errors.length > 0) {
+    throw new Error(
+      `Upgrading ${deploymentName} to the current ${contractName} would corrupt its storage:\n  ` +
+        errors.join("\n  "),
+    );
+  }
+}